@@ -1,339 +1,658 @@
-import { useState, useEffect ,useRef} from "react";
-import { Binary, TreePine, Info, Hash, BarChart2, Code2,GitGraph,Download,FileUp } from "lucide-react";
-
-class HuffmanTreeNode {
-  data: string;
-  freq: number;
-  children: HuffmanTreeNode[];
-
-  constructor(character: string, frequency: number) {
-    this.data = character;
-    this.freq = frequency;
-    this.children = [];
-  }
-}
-
-class PriorityQueue {
-  private nodes: HuffmanTreeNode[];
-
-  constructor() {
-    this.nodes = [];
-  }
-
-  enqueue(node: HuffmanTreeNode) {
-    this.nodes.push(node);
-    this.sort();
-  }
-
-  dequeue(): HuffmanTreeNode | undefined {
-    return this.nodes.shift();
-  }
-
-  sort() {
-    this.nodes.sort((a, b) => {
-      // Primary sort by frequency
-      if (a.freq !== b.freq) return a.freq - b.freq;
-      // Secondary sort by data (for consistent ordering of equal frequencies)
-      return a.data.localeCompare(b.data);
-    });
-  }
-
-  get size(): number {
-    return this.nodes.length;
-  }
-
-  getNodes(): HuffmanTreeNode[] {
-    return [...this.nodes];
-  }
-}
-
-function calculateRequiredDummies(symbolCount: number, m: number): number {
-  // For m-ary Huffman, we need (n-1) mod (m-1) = 0
-  // where n is the total number of symbols including dummies
-  const remainder = (symbolCount - 1) % (m - 1);
-  if (remainder === 0) return 0;
-  return m - 1 - remainder;
-}
-
-function generateMaryTree(
-  frequencies: Map<string, number>,
-  m: number
-): HuffmanTreeNode | null {
-  const pq = new PriorityQueue();
-
-  // Create leaf nodes from actual symbols
-  for (const [char, freq] of frequencies.entries()) {
-    pq.enqueue(new HuffmanTreeNode(char, freq));
-  }
-
-  // Handle special cases
-  if (pq.size === 0) return null;
-  if (pq.size === 1) return pq.dequeue()!;
-
-  // Add dummy nodes if needed
-  const dummiesNeeded = calculateRequiredDummies(pq.size, m);
-  for (let i = 0; i < dummiesNeeded; i++) {
-    pq.enqueue(new HuffmanTreeNode(`z${i}`, 0));
-  }
-
-  // Build the tree
-  while (pq.size > 1) {
-    const numNodes = Math.min(m, pq.size);
-    const newNode = new HuffmanTreeNode("internal", 0);
-    let totalFreq = 0;
-
-    // Take exactly m nodes (or all remaining if less than m)
-    for (let i = 0; i < numNodes; i++) {
-      const child = pq.dequeue();
-      if (child) {
-        newNode.children.push(child);
-        totalFreq += child.freq;
-      }
-    }
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { Binary, TreePine, Info, Hash, BarChart2, Code2,GitGraph,Download,FileUp,FileDown,AlertTriangle,X } from "lucide-react";
+import {
+  ALPHABET_PRESETS,
+  ARCHIVE_EXTENSION,
+  AlphabetPresetId,
+  ArchiveCoding,
+  ArchiveError,
+  CodeMode,
+  Codeword,
+  HuffmanTreeNode,
+  MAX_BRANCHING_FACTOR,
+  MIN_BRANCHING_FACTOR,
+  SYMBOL_MODELS,
+  SymbolModel,
+  SymbolType,
+  TIE_BREAKS,
+  TieBreak,
+  WeightRow,
+  bytesToSymbols,
+  calculateMetrics,
+  canonicalTree,
+  codebookSize,
+  displaySymbol,
+  formatCodeword,
+  formatDigits,
+  formatWeight,
+  frequenciesToRows,
+  isPrintableByteData,
+  maxCodeLength,
+  minimumMaxLength,
+  literalKindFor,
+  parseWeightTable,
+  resolveAlphabet,
+} from "./lib";
+import { CoderWorkerClient, JobCancelledError } from "./workers/coderClient";
+import { AnalysisResult } from "./workers/protocol";
+import { CoderResult } from "./lib/comparison";
+import { MAX_SAVED_TEXT, snapshotRun } from "./lib/runHistory";
+import {
+  DEFAULT_SESSION,
+  SessionConfig,
+  SessionError,
+  decodeSession,
+  encodeSession,
+} from "./lib/session";
+import CanonicalCodeTable from "./components/CanonicalCodeTable";
+import ConstructionPlayer from "./components/ConstructionPlayer";
+import MetricsPanel from "./components/MetricsPanel";
+import ComparisonDashboard from "./components/ComparisonDashboard";
+import TreeVisualization from "./components/TreeVisualization";
+import AdaptivePlayer from "./components/AdaptivePlayer";
+import BenchmarkPanel from "./components/BenchmarkPanel";
+import SymbolModelComparison from "./components/SymbolModelComparison";
+import ExportPanel from "./components/ExportPanel";
+import DecodeTrace from "./components/DecodeTrace";
+import ChannelNoisePanel from "./components/ChannelNoisePanel";
+import CoderComparison from "./components/CoderComparison";
+import TieBreakPanel from "./components/TieBreakPanel";
+import WeightTableEditor from "./components/WeightTableEditor";
+import SessionPanel from "./components/SessionPanel";
+import QuizPanel from "./components/QuizPanel";
 
-    newNode.freq = totalFreq;
-    pq.enqueue(newNode);
-  }
+type View = "visualizer" | "compare" | "benchmark" | "runs" | "practice";
 
-  return pq.dequeue()!;
-}
-
-function generateCodes(
-  node: HuffmanTreeNode | null,
-  currentCode: string,
-  codes: Map<string, string>
-): void {
-  if (!node) return;
-
-  // If it's a leaf node (contains a character) and not a dummy node
-  if (node.data !== "internal" && !node.data.startsWith("dummy")) {
-    codes.set(node.data, currentCode || "0"); // Use "0" for single-character input
-    return;
-  }
-
-  // Recursively generate codes for children
-  node.children.forEach((child, index) => {
-    generateCodes(child, currentCode + index.toString(), codes);
-  });
-}
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+const PREVIEW_LENGTH = 500;
+// Digits rendered at once in the encoded output; more on request
+const OUTPUT_PAGE = 2000;
+// Longer setups are left out of the address bar; saved runs still hold them
+const MAX_LINK_LENGTH = 32_000;
+// Typing pauses this long before the address bar follows
+const LINK_DELAY_MS = 400;
+// and this long before the input is analyzed again
+const ANALYSIS_DELAY_MS = 250;
 
-function TreeNode({ node, x, y, parentX, parentY, width, level }: { 
-  node: HuffmanTreeNode; 
-  x: number; 
-  y: number;
-  parentX?: number;
-  parentY?: number;
-  width: number;
-  level: number;
-}) {
-  const nodeSize = 60;
-  const verticalSpacing = 150;
-  const isLeaf = node.children.length === 0;
-  const isDummy = node.data.startsWith("dummy");
-
-  const Line = parentX !== undefined && parentY !== undefined ? (
-    <line
-      x1={parentX}
-      y1={parentY + nodeSize/2}
-      x2={x}
-      y2={y - nodeSize/2}
-      stroke="#818cf8"
-      strokeWidth="3"
-      className="opacity-70"
-    />
-  ) : null;
-
-  const childrenNodes = node.children.map((child, index) => {
-    const childCount = node.children.length;
-    const segmentWidth = width / childCount;
-    const childX = x - width/2 + segmentWidth * (index + 0.5);
-    const childY = y + verticalSpacing;
-
-    return (
-      <TreeNode
-        key={`${child.data}-${index}-${level}`}
-        node={child}
-        x={childX}
-        y={childY}
-        parentX={x}
-        parentY={y}
-        width={segmentWidth}
-        level={level + 1}
-      />
-    );
-  });
+// The head of a file of the given total size
+function previewContents(head: Uint8Array, size: number, symbolType: SymbolType): string {
+  const more = size > PREVIEW_LENGTH ? "…" : "";
+  if (symbolType === "text") return textDecoder.decode(head) + more;
 
+  const symbols = bytesToSymbols(head);
+  if (isPrintableByteData(symbols)) return symbols + more;
   return (
-    <g>
-      {Line}
-      <circle
-        cx={x}
-        cy={y}
-        r={nodeSize/2 + 2}
-        className="fill-white"
-      />
-      <circle
-        cx={x}
-        cy={y}
-        r={nodeSize/2}
-        className={`${
-          isLeaf 
-            ? isDummy 
-              ? "fill-gray-100 stroke-gray-300" 
-              : "fill-indigo-100 stroke-indigo-500"
-            : "fill-purple-100 stroke-purple-500"
-        } stroke-3`}
-      />
-      <text
-        x={x}
-        y={y}
-        textAnchor="middle"
-        dominantBaseline="middle"
-        className={`text-3xl font-mono font-semibold ${
-          isLeaf 
-            ? isDummy 
-              ? "fill-gray-400" 
-              : "fill-indigo-600"
-            : "fill-purple-600"
-        }`}
-      >
-        {isLeaf ? (node.data === " " ? "␣" : node.data) : node.freq}
-      </text>
-      {childrenNodes}
-    </g>
-  );
-}
-
-function TreeVisualization({ root }: { root: HuffmanTreeNode | null }) {
-  if (!root) return null;
-
-  const width = 1200;
-  const height = 800;
-  const margin = 60;
-
-  return (
-    <svg 
-      width="100%" 
-      height="100%" 
-      viewBox={`0 0 ${width} ${height}`}
-      className="max-h-[800px]"
-    >
-      <TreeNode
-        node={root}
-        x={width/2}
-        y={margin}
-        width={width - margin}
-        level={0}
-      />
-    </svg>
+    Array.from(head.subarray(0, 128), (byte) =>
+      byte.toString(16).toUpperCase().padStart(2, "0")
+    ).join(" ") + (size > 128 ? " …" : "")
   );
 }
 
 function App() {
-  const [inputText, setInputText] = useState("aabbbccccc");
-  const [mValue, setMValue] = useState(3);
-  const [encodedText, setEncodedText] = useState("");
+  const [view, setView] = useState<View>("visualizer");
+  const [inputMode, setInputMode] = useState(DEFAULT_SESSION.inputMode);
+  const [inputText, setInputText] = useState(DEFAULT_SESSION.text);
+  // Symbol/weight rows of the table input mode
+  const [weightRows, setWeightRows] = useState<WeightRow[]>(DEFAULT_SESSION.rows);
+  const [inputBytes, setInputBytes] = useState<{
+    name: string;
+    data: Uint8Array;
+  } | null>(null);
+  const [uploadAs, setUploadAs] = useState<SymbolType>("text");
+  const [mValue, setMValue] = useState(DEFAULT_SESSION.m);
+  const [symbolModel, setSymbolModel] = useState<SymbolModel>(DEFAULT_SESSION.model);
+  const [encodedDigits, setEncodedDigits] = useState<Uint8Array>(
+    new Uint8Array()
+  );
+  const [alphabetId, setAlphabetId] = useState<AlphabetPresetId>(DEFAULT_SESSION.alphabetId);
+  const [customAlphabet, setCustomAlphabet] = useState(DEFAULT_SESSION.customAlphabet);
   const [compressionRatio, setCompressionRatio] = useState(0);
-  const [huffmanCodes, setHuffmanCodes] = useState<Map<string, string>>(
+  const [archiveSize, setArchiveSize] = useState(0);
+  const [codeMode, setCodeMode] = useState<CodeMode>(DEFAULT_SESSION.codeMode);
+  const [huffmanCodes, setHuffmanCodes] = useState<Map<string, Codeword>>(
+    new Map()
+  );
+  const [canonicalCodes, setCanonicalCodes] = useState<Map<string, Codeword>>(
+    new Map()
+  );
+  const [codeLengths, setCodeLengths] = useState<Map<string, number>>(
+    new Map()
+  );
+  // Longest codeword allowed, or null for plain Huffman
+  const [maxLength, setMaxLength] = useState<number | null>(DEFAULT_SESSION.maxLength);
+  const [tieBreak, setTieBreak] = useState<TieBreak>(DEFAULT_SESSION.tieBreak);
+  const [huffmanLengths, setHuffmanLengths] = useState<Map<string, number>>(
     new Map()
   );
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [frequencies, setFrequencies] = useState<Map<string, number>>(
     new Map()
   );
   const [treeRoot, setTreeRoot] = useState<HuffmanTreeNode | null>(null);
-  const [compressedFile, setCompressedFile] = useState<Blob | null>(null);
+  const [sourceSymbols, setSourceSymbols] = useState<string | string[]>("");
+  const [archiveCoding, setArchiveCoding] = useState<ArchiveCoding>(
+    DEFAULT_SESSION.archiveCoding
+  );
+  const [blockSize, setBlockSize] = useState(DEFAULT_SESSION.blockSize);
+  const [adaptiveDigitCount, setAdaptiveDigitCount] = useState(0);
+  // Model of the analyzed symbols; tables pick their own
+  const [analyzedModel, setAnalyzedModel] = useState<SymbolModel>("char");
+  const [analyzedM, setAnalyzedM] = useState(DEFAULT_SESSION.m);
+  const [coderResults, setCoderResults] = useState<CoderResult[]>([]);
+  // The other coders only run while their panel is open
+  const [showCoders, setShowCoders] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [visibleDigits, setVisibleDigits] = useState(OUTPUT_PAGE);
+  const [compressedFile, setCompressedFile] = useState<{
+    blob: Blob;
+    name: string;
+  } | null>(null);
+  const [fileMode, setFileMode] = useState<"compress" | "decompress">("compress");
+  const [decompressedFile, setDecompressedFile] = useState<{
+    name: string;
+    // Assembled from the chunks the worker streams back
+    blob: Blob;
+    preview: Uint8Array;
+    symbolType: SymbolType;
+    model: SymbolModel;
+    coding: ArchiveCoding;
+    mValue: number;
+  } | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [fileJob, setFileJob] = useState<{
+    label: string;
+    done: number;
+    total: number;
+  } | null>(null);
+  // The address bar is only written once the setup it held has been read
+  const [sessionReady, setSessionReady] = useState(false);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [linkTooLong, setLinkTooLong] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  // Separate workers, so that typing never waits behind a long file job,
+  // and the main analysis never waits behind its slower follow-ups
+  const [analysisWorker] = useState(() => new CoderWorkerClient());
+  const [fileWorker] = useState(() => new CoderWorkerClient());
+  const [adaptiveWorker] = useState(() => new CoderWorkerClient());
+  const [coderWorker] = useState(() => new CoderWorkerClient());
+
+  useEffect(
+    () => () => {
+      analysisWorker.cancel();
+      fileWorker.cancel();
+      adaptiveWorker.cancel();
+      coderWorker.cancel();
+    },
+    [analysisWorker, fileWorker, adaptiveWorker, coderWorker]
+  );
+
+  const runFileJob = async <T,>(
+    label: string,
+    start: (onProgress: (done: number, total: number) => void) => Promise<T>
+  ): Promise<T | null> => {
+    setFileError(null);
+    setFileJob({ label, done: 0, total: 0 });
+    try {
+      return await start((done, total) => setFileJob({ label, done, total }));
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        setFileError(
+          error instanceof ArchiveError || error instanceof RangeError
+            ? error.message
+            : `${label} failed`
+        );
+      }
+      return null;
+    } finally {
+      setFileJob(null);
+    }
+  };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    event.target.value = "";
 
     const reader = new FileReader();
     reader.onload = async (e) => {
-      const text = e.target?.result as string;
-      setInputText(text);
-      
-      // Encode the text using M-ary Huffman
-      const encoded = encode(text, mValue);
-      setEncodedText(encoded);
-
-      // Create compressed file format
-      const compressionData = {
-        mValue,
-        huffmanCodes: Array.from(huffmanCodes.entries()),
-        encodedData: encoded,
-        originalFileName: file.name
-      };
+      let input: string | Uint8Array;
+      if (uploadAs === "bytes") {
+        input = new Uint8Array(e.target?.result as ArrayBuffer);
+        setInputBytes({ name: file.name, data: input });
+      } else {
+        input = e.target?.result as string;
+        setInputBytes(null);
+        setInputText(input);
+      }
+      setInputMode("text");
+      setCompressedFile(null);
 
-      // Create compressed file
-      const compressedBlob = new Blob([JSON.stringify(compressionData)], {
-        type: 'application/json'
+      // Static archives store only code lengths and re-encode canonically;
+      // adaptive ones store no codebook and block ones one per block
+      const chunks: Uint8Array[] = [];
+      const size = await runFileJob(`Compressing ${file.name}`, (onProgress) =>
+        fileWorker.run(
+          {
+            type: "compress",
+            input,
+            options: {
+              m: mValue,
+              model: symbolModel,
+              maxLength: maxLength ?? undefined,
+              fileName: file.name,
+              coding: archiveCoding,
+              blockSize,
+            },
+          },
+          onProgress,
+          (chunk) => chunks.push(chunk)
+        )
+      );
+      if (size === null) return;
+
+      setCompressedFile({
+        blob: new Blob(chunks, { type: 'application/octet-stream' }),
+        name: file.name + ARCHIVE_EXTENSION,
       });
-      setCompressedFile(compressedBlob);
     };
-    reader.readAsText(file);
+    reader.onerror = () => setFileError("Could not read the selected file");
+    if (uploadAs === "bytes") {
+      reader.readAsArrayBuffer(file);
+    } else {
+      reader.readAsText(file);
+    }
   };
 
-  const downloadCompressedFile = () => {
-    if (!compressedFile) return;
-    
-    const url = URL.createObjectURL(compressedFile);
+  const handleArchiveUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // Allow the same archive to be selected again after an error
+    event.target.value = "";
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      setDecompressedFile(null);
+      const chunks: Uint8Array[] = [];
+      const result = await runFileJob(`Decompressing ${file.name}`, (onProgress) =>
+        fileWorker.run(
+          {
+            type: "decompress",
+            archive: new Uint8Array(e.target?.result as ArrayBuffer),
+          },
+          onProgress,
+          (chunk) => chunks.push(chunk)
+        )
+      );
+      if (!result) return;
+
+      const blob = new Blob(chunks, {
+        type: result.symbolType === "bytes" ? "application/octet-stream" : "text/plain",
+      });
+      setDecompressedFile({
+        name: result.fileName,
+        blob,
+        preview: new Uint8Array(await blob.slice(0, PREVIEW_LENGTH).arrayBuffer()),
+        symbolType: result.symbolType,
+        model: result.model,
+        coding: result.coding,
+        mValue: result.m,
+      });
+    };
+    reader.onerror = () => {
+      setDecompressedFile(null);
+      setFileError("Could not read the selected file");
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const downloadFile = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'compressed_file.txt';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const calculateFrequencies = (text: string): Map<string, number> => {
-    const freq = new Map<string, number>();
-    for (const char of text) {
-      freq.set(char, (freq.get(char) || 0) + 1);
-    }
-    return freq;
+  const downloadCompressedFile = () => {
+    if (!compressedFile) return;
+    downloadFile(compressedFile.blob, compressedFile.name);
   };
 
-  const encode = (text: string, m: number) => {
-    if (!text) return "";
-
-    // Calculate frequencies
-    const freq = calculateFrequencies(text);
-    setFrequencies(freq);
-
-    // Generate Huffman tree
-    const root = generateMaryTree(freq, m);
-    setTreeRoot(root);
-
-    // Generate codes
-    const codes = new Map<string, string>();
-    generateCodes(root, "", codes);
-    setHuffmanCodes(codes);
+  const downloadDecompressedFile = () => {
+    if (!decompressedFile) return;
+    downloadFile(decompressedFile.blob, decompressedFile.name);
+  };
 
-    // Encode the text
-    let encoded = "";
-    for (const char of text) {
-      const code = codes.get(char);
-      if (code) encoded += code;
-    }
+  const applyAnalysis = ({
+    result,
+    archiveSize,
+  }: AnalysisResult) => {
+    setFrequencies(result.frequencies);
+    setSourceSymbols(result.symbols);
+    setAnalyzedModel(result.model);
+    setAnalyzedM(result.m);
+    setTreeRoot(result.root);
+    setHuffmanCodes(result.treeCodes);
+    setCodeLengths(result.codeLengths);
+    setHuffmanLengths(result.huffmanCodeLengths);
+    setCanonicalCodes(result.canonicalCodes);
+    setEncodedDigits(result.encoded);
+    setVisibleDigits(OUTPUT_PAGE);
+    setAnalysisError(null);
 
-    // Calculate compression ratio
-    const originalBits = text.length * 8;
-    const compressedBits = encoded.length;
-    const ratio = (
+    // Calculate compression ratio (each m-ary digit carries log2(m) bits)
+    const originalBits = result.originalBytes * 8;
+    const compressedBits = result.encoded.length * Math.log2(result.m);
+    const ratio = originalBits > 0 ? (
       ((originalBits - compressedBits) / originalBits) *
       100
-    ).toFixed(2);
+    ).toFixed(2) : 0;
     setCompressionRatio(Number(ratio));
 
-    return encoded;
+    // Size of the real container the download would produce
+    setArchiveSize(archiveSize);
   };
 
+  const { symbols: digitSymbols, error: alphabetError } = resolveAlphabet(
+    alphabetId,
+    customAlphabet,
+    mValue
+  );
+  const activeCodes = codeMode === "canonical" ? canonicalCodes : huffmanCodes;
+  // The tree view, decode trace and exports all show the tree of whichever
+  // codebook produced the output
+  const activeRoot = useMemo(
+    () =>
+      codeMode === "canonical"
+        ? canonicalTree(canonicalCodes, frequencies, mValue)
+        : treeRoot,
+    [codeMode, canonicalCodes, frequencies, mValue, treeRoot]
+  );
+  const encodedText = formatDigits(
+    encodedDigits.subarray(0, visibleDigits),
+    digitSymbols
+  );
+
+  const symbolType: SymbolType = inputBytes && inputMode === "text" ? "bytes" : "text";
+  const weightTable = useMemo(() => parseWeightTable(weightRows), [weightRows]);
+  const originalByteCount = useMemo(
+    () =>
+      inputMode === "table"
+        ? 0
+        : inputBytes
+          ? inputBytes.data.length
+          : textEncoder.encode(inputText).length,
+    [inputMode, inputBytes, inputText]
+  );
+  // Binary data reads better as hex unless every byte is printable ASCII
+  const hexSymbols =
+    symbolType === "bytes" && !isPrintableByteData(frequencies.keys());
+
+  const metrics = useMemo(
+    () => calculateMetrics(frequencies, codeLengths, mValue),
+    [frequencies, codeLengths, mValue]
+  );
+  const huffmanMetrics = useMemo(
+    () => calculateMetrics(frequencies, huffmanLengths, mValue),
+    [frequencies, huffmanLengths, mValue]
+  );
+  const shortestLimit = minimumMaxLength(frequencies.size, mValue);
+  const codebookBytes = useMemo(
+    () => codebookSize(codeLengths, symbolType),
+    [codeLengths, symbolType]
+  );
+  const literalKind = literalKindFor(symbolType, symbolModel);
+  const adaptiveBits = adaptiveDigitCount * Math.log2(mValue);
+  const staticBits = metrics.equivalentBits + codebookBytes * 8;
+
+  // Re-analyze off the main thread once typing pauses; a newer input
+  // cancels a run in progress
+  useEffect(() => {
+    // An invalid table keeps the last result; the editor lists the errors
+    if (inputMode === "table" && weightTable.errors.length > 0) {
+      setAnalyzing(false);
+      return;
+    }
+
+    let active = true;
+    let started = false;
+    let finished = false;
+    setAnalyzing(true);
+    const timer = setTimeout(() => {
+      started = true;
+      const options = {
+        m: mValue,
+        codeMode,
+        maxLength: maxLength ?? undefined,
+        tieBreak,
+      };
+      const job =
+        inputMode === "table"
+          ? analysisWorker.run({
+              type: "analyzeDistribution",
+              frequencies: weightTable.frequencies,
+              options,
+            })
+          : analysisWorker.run({
+              type: "analyze",
+              input: inputBytes?.data ?? inputText,
+              options: { ...options, model: symbolModel },
+            });
+      job
+        .then((analysis) => {
+          if (active) applyAnalysis(analysis);
+        })
+        .catch((error) => {
+          if (error instanceof JobCancelledError || !active) return;
+          // Infeasible length limits are reported as range errors
+          setAnalysisError(
+            error instanceof RangeError
+              ? error.message
+              : `The analysis failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        })
+        .finally(() => {
+          finished = true;
+          if (active) setAnalyzing(false);
+        });
+    }, ANALYSIS_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+      if (started && !finished) analysisWorker.cancel();
+    };
+  }, [
+    analysisWorker,
+    inputMode,
+    weightTable,
+    inputText,
+    inputBytes,
+    mValue,
+    codeMode,
+    symbolModel,
+    maxLength,
+    tieBreak,
+  ]);
+
+  // Follow-ups on the analyzed symbols, each on its own worker so that a
+  // new analysis never waits for them
+  useEffect(() => {
+    if (sourceSymbols.length === 0) {
+      setAdaptiveDigitCount(0);
+      return;
+    }
+    let active = true;
+    let finished = false;
+    adaptiveWorker
+      .run({
+        type: "adaptiveDigits",
+        symbols: sourceSymbols,
+        m: analyzedM,
+        literal: literalKindFor(symbolType, analyzedModel),
+      })
+      .then((digits) => {
+        if (active) setAdaptiveDigitCount(digits);
+      })
+      .catch((error) => {
+        if (error instanceof JobCancelledError || !active) return;
+        setAnalysisError(
+          `Adaptive coding failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      })
+      .finally(() => {
+        finished = true;
+      });
+    return () => {
+      active = false;
+      if (!finished) adaptiveWorker.cancel();
+    };
+  }, [adaptiveWorker, sourceSymbols, analyzedM, symbolType, analyzedModel]);
+
   useEffect(() => {
-    const encoded = encode(inputText, mValue);
-    setEncodedText(encoded);
-  }, [inputText, mValue]);
+    if (!showCoders || sourceSymbols.length === 0) {
+      setCoderResults([]);
+      return;
+    }
+    let active = true;
+    let finished = false;
+    coderWorker
+      .run({
+        type: "compareCoders",
+        symbols: sourceSymbols,
+        frequencies,
+        m: analyzedM,
+        codes: activeCodes,
+      })
+      .then((results) => {
+        if (active) setCoderResults(results);
+      })
+      .catch((error) => {
+        if (error instanceof JobCancelledError || !active) return;
+        setAnalysisError(
+          `The coder comparison failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      })
+      .finally(() => {
+        finished = true;
+      });
+    return () => {
+      active = false;
+      if (!finished) coderWorker.cancel();
+    };
+  }, [coderWorker, showCoders, sourceSymbols, frequencies, analyzedM, activeCodes]);
+
+  const session: SessionConfig = useMemo(
+    () => ({
+      inputMode,
+      text: inputText,
+      rows: weightRows,
+      m: mValue,
+      model: symbolModel,
+      codeMode,
+      maxLength,
+      tieBreak,
+      alphabetId,
+      customAlphabet,
+      archiveCoding,
+      blockSize,
+    }),
+    [
+      inputMode,
+      inputText,
+      weightRows,
+      mValue,
+      symbolModel,
+      codeMode,
+      maxLength,
+      tieBreak,
+      alphabetId,
+      customAlphabet,
+      archiveCoding,
+      blockSize,
+    ]
+  );
+
+  const applySession = useCallback((config: SessionConfig) => {
+    setInputBytes(null);
+    setInputMode(config.inputMode);
+    setInputText(config.text);
+    setWeightRows(config.rows);
+    setMValue(config.m);
+    setSymbolModel(config.model);
+    setCodeMode(config.codeMode);
+    setMaxLength(config.maxLength);
+    setTieBreak(config.tieBreak);
+    setAlphabetId(config.alphabetId);
+    setCustomAlphabet(config.customAlphabet);
+    setArchiveCoding(config.archiveCoding);
+    setBlockSize(config.blockSize);
+  }, []);
+
+  // Open the setup in the address bar, on load and when a link is pasted
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      decodeSession(window.location.hash)
+        .then((config) => {
+          if (!active) return;
+          if (config) applySession(config);
+          setSessionError(null);
+        })
+        .catch((error) => {
+          if (!active) return;
+          setSessionError(
+            error instanceof SessionError ? error.message : "The link could not be read"
+          );
+        })
+        .finally(() => {
+          if (active) setSessionReady(true);
+        });
+    };
+    load();
+    window.addEventListener("hashchange", load);
+    return () => {
+      active = false;
+      window.removeEventListener("hashchange", load);
+    };
+  }, [applySession]);
+
+  // Keep the address bar in step with the setup, so reloading keeps it and
+  // the address is a link to it. Uploaded binary files cannot go in a link.
+  useEffect(() => {
+    if (!sessionReady || inputBytes) return;
+    let active = true;
+    const timer = setTimeout(() => {
+      encodeSession(session).then((hash) => {
+        if (!active) return;
+        const fits = hash.length <= MAX_LINK_LENGTH;
+        setLinkTooLong(!fits);
+        const url = fits ? hash : window.location.pathname + window.location.search;
+        if ((fits ? hash : "") !== window.location.hash) {
+          window.history.replaceState(null, "", url);
+        }
+      });
+    }, LINK_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [sessionReady, inputBytes, session]);
+
+  const binaryProblem = inputBytes ? "Uploaded binary files cannot be linked or saved" : null;
+  const shareProblem =
+    binaryProblem ?? (linkTooLong ? "The input is too long for a link; save the run instead" : null);
+  const saveProblem =
+    binaryProblem ??
+    (inputMode === "text" && inputText.length > MAX_SAVED_TEXT
+      ? `Inputs over ${MAX_SAVED_TEXT.toLocaleString()} characters cannot be saved`
+      : analyzing || analysisError || (inputMode === "table" && weightTable.errors.length > 0)
+        ? "The current setup has no result to save yet"
+        : null);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-blue-100 p-4 md:p-8">
@@ -352,12 +671,80 @@ function App() {
                 An interactive tool for visualizing and analyzing M-ary Huffman compression
               </p>
             </div>
+            <div className="flex gap-2 md:ml-auto">
+              {([
+                ["visualizer", "Visualizer"],
+                ["compare", "Compare m"],
+                ["benchmark", "Benchmark"],
+                ["runs", "Saved runs"],
+                ["practice", "Practice"],
+              ] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  className={`py-2 px-4 rounded-xl font-semibold transition-all ${
+                    view === id
+                      ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
 
+        {sessionError && (
+          <div className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 p-4 rounded-xl">
+            <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+            <p className="text-sm flex-1">Could not open the shared setup: {sessionError}</p>
+            <button
+              onClick={() => setSessionError(null)}
+              className="text-red-400 hover:text-red-600 transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {view === "compare" && (
+          <ComparisonDashboard
+            frequencies={frequencies}
+            currentM={mValue}
+            onSelectM={(m) => {
+              setMValue(m);
+              setView("visualizer");
+            }}
+          />
+        )}
+
+        {view === "benchmark" && <BenchmarkPanel initialM={mValue} />}
 
+        {view === "practice" && <QuizPanel />}
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {view === "runs" && (
+          <SessionPanel
+            config={session}
+            shareProblem={shareProblem}
+            saveProblem={saveProblem}
+            takeSnapshot={() =>
+              snapshotRun(
+                metrics,
+                frequencies,
+                activeCodes,
+                inputMode === "text" ? compressionRatio : null
+              )
+            }
+            onRestore={(config) => {
+              applySession(config);
+              setView("visualizer");
+            }}
+          />
+        )}
+
+        <div className={`grid grid-cols-1 lg:grid-cols-2 gap-8 ${view === "visualizer" ? "" : "hidden"}`}>
           {/* Input Section */}
           <div className="space-y-8">
             <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
@@ -371,15 +758,65 @@ function App() {
               </div>
               <div className="space-y-6">
                 <div>
+                  <div className="flex gap-4 mb-4">
+                    {([
+                      ["text", "Text"],
+                      ["table", "Symbol/weight table"],
+                    ] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => {
+                          // A new table starts from the current distribution
+                          if (mode === "table" && weightRows.length === 0) {
+                            setWeightRows(frequenciesToRows(frequencies));
+                          }
+                          setInputMode(mode);
+                        }}
+                        className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all transform hover:-translate-y-0.5 ${
+                          inputMode === mode
+                            ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Text to Compress
+                    {inputMode === "table"
+                      ? "Symbols and Weights (counts or probabilities)"
+                      : "Text to Compress"}
                   </label>
-                  <textarea
-                    value={inputText}
-                    onChange={(e) => setInputText(e.target.value)}
-                    className="w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all min-h-[120px] font-mono shadow-inner resize-none"
-                    placeholder="Enter text to compress..."
-                  />
+                  {inputMode === "table" ? (
+                    <WeightTableEditor
+                      rows={weightRows}
+                      table={weightTable}
+                      onChange={setWeightRows}
+                      onDownload={downloadFile}
+                    />
+                  ) : inputBytes ? (
+                    <div className="flex items-center justify-between gap-4 p-4 border border-gray-300 rounded-xl min-h-[120px] bg-gray-50 shadow-inner">
+                      <div>
+                        <p className="font-mono text-indigo-600">{inputBytes.name}</p>
+                        <p className="text-sm text-gray-500 mt-1">
+                          Binary input: {inputBytes.data.length} bytes coded as byte symbols
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setInputBytes(null)}
+                        className="py-2 px-4 rounded-xl font-semibold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                      >
+                        Edit text instead
+                      </button>
+                    </div>
+                  ) : (
+                    <textarea
+                      value={inputText}
+                      onChange={(e) => setInputText(e.target.value)}
+                      className="w-full p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all min-h-[120px] font-mono shadow-inner resize-none"
+                      placeholder="Enter text to compress..."
+                    />
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -399,8 +836,167 @@ function App() {
                         {value}
                       </button>
                     ))}
+                    <input
+                      type="number"
+                      min={MIN_BRANCHING_FACTOR}
+                      max={MAX_BRANCHING_FACTOR}
+                      value={mValue}
+                      onChange={(e) => {
+                        const value = Math.round(e.target.valueAsNumber);
+                        if (value >= MIN_BRANCHING_FACTOR && value <= MAX_BRANCHING_FACTOR) {
+                          setMValue(value);
+                        }
+                      }}
+                      className="w-24 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono font-semibold text-center shadow-inner"
+                      title={`Any m from ${MIN_BRANCHING_FACTOR} to ${MAX_BRANCHING_FACTOR}`}
+                    />
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Symbol Model
+                  </label>
+                  <select
+                    value={inputBytes ? "char" : symbolModel}
+                    onChange={(e) => setSymbolModel(e.target.value as SymbolModel)}
+                    disabled={inputBytes !== null || inputMode === "table"}
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white disabled:opacity-50"
+                  >
+                    {SYMBOL_MODELS.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs mt-2 text-gray-500">
+                    {inputMode === "table"
+                      ? "Table symbols are used exactly as entered."
+                      : inputBytes
+                      ? "Binary input is always coded one byte per symbol."
+                      : SYMBOL_MODELS.find((model) => model.id === symbolModel)!.description}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Digit Alphabet
+                  </label>
+                  <div className="flex gap-4">
+                    <select
+                      value={alphabetId}
+                      onChange={(e) => setAlphabetId(e.target.value as AlphabetPresetId)}
+                      className="flex-1 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                    >
+                      {ALPHABET_PRESETS.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </option>
+                      ))}
+                    </select>
+                    {alphabetId === "custom" && (
+                      <input
+                        type="text"
+                        value={customAlphabet}
+                        onChange={(e) => setCustomAlphabet(e.target.value)}
+                        placeholder="e.g. A,C,G,T or ACGT"
+                        className="flex-1 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+                      />
+                    )}
+                  </div>
+                  <p className={`text-xs mt-2 ${alphabetError ? "text-amber-600" : "text-gray-500"}`}>
+                    {alphabetError
+                      ? `${alphabetError}; showing standard digits instead.`
+                      : `Digits 0–${mValue - 1} are shown as ${digitSymbols.slice(0, mValue).join(" ")}`}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Code Assignment
+                  </label>
+                  <div className="flex gap-4">
+                    {([
+                      ["tree", "Tree-derived"],
+                      ["canonical", "Canonical"],
+                    ] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setCodeMode(mode)}
+                        className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all transform hover:-translate-y-0.5 ${
+                          codeMode === mode
+                            ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
+                            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tie-Breaking
+                  </label>
+                  <select
+                    value={tieBreak}
+                    onChange={(e) => setTieBreak(e.target.value as TieBreak)}
+                    className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+                  >
+                    {TIE_BREAKS.map((policy) => (
+                      <option key={policy.id} value={policy.id}>
+                        {policy.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs mt-2 text-gray-500">
+                    {TIE_BREAKS.find((policy) => policy.id === tieBreak)!.description}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Maximum Code Length
+                  </label>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={maxLength !== null}
+                        onChange={(e) =>
+                          setMaxLength(
+                            e.target.checked
+                              ? Math.max(shortestLimit, maxCodeLength(huffmanLengths) - 1)
+                              : null
+                          )
+                        }
+                        className="accent-indigo-600"
+                      />
+                      Limit codewords to
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={maxLength ?? maxCodeLength(huffmanLengths)}
+                      disabled={maxLength === null}
+                      onChange={(e) => {
+                        const value = Math.round(e.target.valueAsNumber);
+                        if (value >= 1) setMaxLength(value);
+                      }}
+                      className="w-24 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono font-semibold text-center shadow-inner disabled:opacity-50"
+                    />
+                    <span className="text-sm text-gray-600">digits</span>
+                  </div>
+                  <p className={`text-xs mt-2 ${analysisError ? "text-amber-600" : "text-gray-500"}`}>
+                    {analysisError
+                      ? analysisError
+                      : maxLength === null
+                        ? `Huffman's longest codeword has ${maxCodeLength(huffmanLengths)} digits; ` +
+                          `any limit from ${shortestLimit} (${mValue}^${shortestLimit} ≥ ${frequencies.size} symbols) is feasible.`
+                        : maxCodeLength(huffmanLengths) <= maxLength
+                          ? "The Huffman code already fits, so nothing changes."
+                          : `Package-merge code: ${metrics.averageLength.toFixed(4)} digits/symbol vs. ` +
+                            `${huffmanMetrics.averageLength.toFixed(4)} unconstrained ` +
+                            `(+${(metrics.averageLength - huffmanMetrics.averageLength).toFixed(4)}, ` +
+                            `${formatWeight(metrics.totalDigits - huffmanMetrics.totalDigits)} more digits in total).`}
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -411,7 +1007,13 @@ function App() {
                   <BarChart2 className="w-6 h-6 text-indigo-600" />
                 </div>
                 <h2 className="text-2xl font-semibold text-gray-800">
-                  Character Analysis
+                  {inputMode === "table"
+                    ? "Symbol Weights"
+                    : symbolType === "bytes"
+                    ? "Byte Analysis"
+                    : symbolModel === "char"
+                      ? "Character Analysis"
+                      : "Symbol Analysis"}
                 </h2>
               </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -422,40 +1024,88 @@ function App() {
                   >
                     <div className="flex justify-between items-center mb-3">
                       <span className="font-mono text-xl bg-white px-4 py-2 rounded-lg shadow-sm border border-indigo-100">
-                        {char === " " ? "␣" : char}
+                        {displaySymbol(char, hexSymbols)}
                       </span>
                       <span className="font-mono text-sm text-indigo-600 bg-white px-3 py-1 rounded-lg shadow-sm border border-indigo-100">
-                        Freq: {freq}
+                        Freq: {formatWeight(freq)}
                       </span>
                     </div>
                     <div className="font-mono text-sm bg-white px-4 py-2 rounded-lg shadow-sm border border-indigo-100">
                       <span className="text-purple-600">Code: </span>
                       <span className="text-indigo-600">
-                        {huffmanCodes.get(char)}
+                        {formatCodeword(activeCodes.get(char), digitSymbols)}
                       </span>
                     </div>
                   </div>
                 ))}
               </div>
             </div>
+
+            {/* Canonical Codebook */}
+            <CanonicalCodeTable
+              frequencies={frequencies}
+              codeLengths={codeLengths}
+              treeCodes={huffmanCodes}
+              canonicalCodes={canonicalCodes}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
           </div>
 
           {/* Output Section */}
           <div className="space-y-8">
-            {/* Encoded Output */}
-            <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
-              <div className="flex items-center gap-3 mb-6">
-                <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
-                  <Code2 className="w-6 h-6 text-indigo-600" />
+            {/* Encoded Output: tables have no source text to encode */}
+            {inputMode === "text" && (
+              <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+                    <Code2 className="w-6 h-6 text-indigo-600" />
+                  </div>
+                  <h2 className="text-2xl font-semibold text-gray-800">
+                    Encoded Output
+                  </h2>
+                  {analyzing && (
+                    <span className="ml-auto text-sm text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg border border-indigo-100">
+                      Updating…
+                    </span>
+                  )}
                 </div>
-                <h2 className="text-2xl font-semibold text-gray-800">
-                  Encoded Output
-                </h2>
-              </div>
-              <div className="bg-gray-900 text-green-400 p-6 rounded-xl font-mono overflow-x-auto shadow-inner min-h-[200px] whitespace-pre-wrap border border-gray-800">
-                {encodedText || "No encoded output yet"}
+                <div className="bg-gray-900 text-green-400 p-6 rounded-xl font-mono overflow-x-auto shadow-inner min-h-[200px] whitespace-pre-wrap break-all border border-gray-800">
+                  {encodedText || "No encoded output yet"}
+                </div>
+                {encodedDigits.length > visibleDigits && (
+                  <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                    <span>
+                      Showing {visibleDigits.toLocaleString()} of{" "}
+                      {encodedDigits.length.toLocaleString()} digits
+                    </span>
+                    <button
+                      onClick={() => setVisibleDigits((n) => n + OUTPUT_PAGE * 5)}
+                      className="px-4 py-2 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+                    >
+                      Show more
+                    </button>
+                  </div>
+                )}
               </div>
-            </div>
+            )}
+
+            <DecodeTrace
+              symbols={sourceSymbols}
+              digits={encodedDigits}
+              codes={activeCodes}
+              root={activeRoot}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
+
+            <ChannelNoisePanel
+              symbols={sourceSymbols}
+              codes={activeCodes}
+              m={mValue}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
 
             {/* Tree Visualization */}
             <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
@@ -468,59 +1118,196 @@ function App() {
                 </h2>
               </div>
               <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 shadow-inner">
-                <TreeVisualization root={treeRoot} />
+                <TreeVisualization
+                  root={activeRoot}
+                  digitSymbols={digitSymbols}
+                  hexSymbols={hexSymbols}
+                />
               </div>
             </div>
 
-            {/* Compression Stats */}
-            <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
-              <div className="flex items-center gap-3 mb-6">
-                <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
-                  <Binary className="w-6 h-6 text-indigo-600" />
+            <ExportPanel
+              context={{
+                m: mValue,
+                symbolType,
+                model: analyzedModel,
+                root: activeRoot,
+                frequencies,
+                codes: activeCodes,
+                metrics,
+                digitSymbols,
+                hexSymbols,
+              }}
+              baseName={inputBytes ? inputBytes.name.replace(/\.[^.]*$/, "") : "huffman"}
+              onDownload={downloadFile}
+            />
+
+            {/* Construction Player */}
+            <ConstructionPlayer
+              frequencies={frequencies}
+              m={mValue}
+              hexSymbols={hexSymbols}
+              tieBreak={tieBreak}
+            />
+
+            <TieBreakPanel
+              frequencies={frequencies}
+              m={mValue}
+              currentTieBreak={tieBreak}
+              onSelectTieBreak={setTieBreak}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
+
+            {/* Adaptive Player */}
+            <AdaptivePlayer
+              symbols={sourceSymbols}
+              m={mValue}
+              literal={literalKind}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
+
+            {/* Compression Stats: sizes only exist for source text */}
+            {inputMode === "text" && (
+              <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+                    <Binary className="w-6 h-6 text-indigo-600" />
+                  </div>
+                  <h2 className="text-2xl font-semibold text-gray-800">
+                    Compression Statistics
+                  </h2>
                 </div>
-                <h2 className="text-2xl font-semibold text-gray-800">
-                  Compression Statistics
-                </h2>
-              </div>
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
-                <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Info className="w-4 h-4 text-indigo-600" />
-                    <p className="text-sm font-medium text-gray-600">
-                      Original Size
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Original Size
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {originalByteCount}
+                      <span className="text-lg ml-1 text-indigo-400">bytes</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {originalByteCount * 8} bits
+                      {symbolType === "text" && " as UTF-8"}
                     </p>
                   </div>
-                  <p className="text-3xl font-bold text-indigo-600">
-                    {inputText.length * 8}
-                    <span className="text-lg ml-1 text-indigo-400">bits</span>
-                  </p>
-                </div>
-                <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Info className="w-4 h-4 text-indigo-600" />
-                    <p className="text-sm font-medium text-gray-600">
-                      Compressed Size
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Compressed Size
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {encodedDigits.length}
+                      <span className="text-lg ml-1 text-indigo-400">digits</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      ≈ {metrics.equivalentBits.toFixed(1)} bits at log2({mValue}) bits
+                      per digit
                     </p>
                   </div>
-                  <p className="text-3xl font-bold text-indigo-600">
-                    {encodedText.length}
-                    <span className="text-lg ml-1 text-indigo-400">bits</span>
-                  </p>
-                </div>
-                <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Info className="w-4 h-4 text-indigo-600" />
-                    <p className="text-sm font-medium text-gray-600">
-                      Compression Ratio
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Compression Ratio
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {compressionRatio}
+                      <span className="text-lg ml-1 text-indigo-400">%</span>
+                    </p>
+                  </div>
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Archive Size (on disk)
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {originalByteCount > 0 ? archiveSize : 0}
+                      <span className="text-lg ml-1 text-indigo-400">bytes</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {originalByteCount > 0 ? archiveSize * 8 : 0} bits including header,
+                      codebook and CRC-32
+                    </p>
+                  </div>
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Codebook Cost
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {originalByteCount > 0 ? codebookBytes : 0}
+                      <span className="text-lg ml-1 text-indigo-400">bytes</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {frequencies.size} symbols; data + codebook ≈{" "}
+                      {originalByteCount > 0 ? staticBits.toFixed(1) : 0} bits
+                    </p>
+                  </div>
+                  <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 hover:shadow-lg transition-all transform hover:-translate-y-0.5 sm:col-span-2">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Info className="w-4 h-4 text-indigo-600" />
+                      <p className="text-sm font-medium text-gray-600">
+                        Adaptive (One-Pass) Output
+                      </p>
+                    </div>
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {adaptiveDigitCount}
+                      <span className="text-lg ml-1 text-indigo-400">digits</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      ≈ {adaptiveBits.toFixed(1)} bits with no codebook, vs.{" "}
+                      {originalByteCount > 0 ? staticBits.toFixed(1) : 0} bits for static
+                      data + codebook
+                      {originalByteCount > 0 &&
+                        (adaptiveBits < staticBits
+                          ? ` (adaptive saves ${(staticBits - adaptiveBits).toFixed(1)} bits)`
+                          : ` (static saves ${(adaptiveBits - staticBits).toFixed(1)} bits)`)}
                     </p>
                   </div>
-                  <p className="text-3xl font-bold text-indigo-600">
-                    {compressionRatio}
-                    <span className="text-lg ml-1 text-indigo-400">%</span>
-                  </p>
                 </div>
               </div>
-            </div>
+            )}
+
+            {inputMode === "text" && (
+              <CoderComparison
+                open={showCoders}
+                onToggle={() => setShowCoders((open) => !open)}
+                results={coderResults}
+                frequencies={frequencies}
+                entropy={metrics.entropy}
+                m={mValue}
+                digitSymbols={digitSymbols}
+                hexSymbols={hexSymbols}
+              />
+            )}
+
+            {/* Symbol Models */}
+            {!inputBytes && inputMode === "text" && (
+              <SymbolModelComparison
+                text={inputText}
+                m={mValue}
+                currentModel={symbolModel}
+                onSelectModel={setSymbolModel}
+              />
+            )}
+
+            {/* Information Theory */}
+            {frequencies.size > 0 && (
+              <MetricsPanel metrics={metrics} hexSymbols={hexSymbols} />
+            )}
 
                     {/* File Upload Section */}
         <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100">
@@ -533,34 +1320,223 @@ function App() {
             </h2>
           </div>
           <div className="space-y-4">
-            <div className="flex flex-col items-center justify-center border-2 border-dashed border-indigo-200 rounded-xl p-8 bg-indigo-50/50 hover:bg-indigo-50/70 transition-colors">
-              <input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleFileUpload}
-                className="hidden"
-                accept=".txt"
-              />
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                className="bg-indigo-600 text-white px-8 py-4 rounded-xl hover:bg-indigo-700 transition-all flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
-              >
-                <FileUp className="w-5 h-5" />
-                Upload Text File
-              </button>
-              <p className="text-sm text-gray-500 mt-4">
-                Upload a .txt file to compress using M-ary Huffman coding
-              </p>
+            <div className="flex gap-4">
+              {(["compress", "decompress"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setFileMode(mode)}
+                  className={`flex-1 py-3 px-4 rounded-xl font-semibold capitalize transition-all transform hover:-translate-y-0.5 ${
+                    fileMode === mode
+                      ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {mode}
+                </button>
+              ))}
             </div>
-            
-            {compressedFile && (
-              <button
-                onClick={downloadCompressedFile}
-                className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 text-white px-8 py-4 rounded-xl hover:from-purple-700 hover:to-indigo-700 transition-all flex items-center gap-3 justify-center shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
-              >
-                <Download className="w-5 h-5" />
-                Download Compressed File
-              </button>
+
+            {fileJob && (
+              <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100">
+                <div className="flex items-center justify-between gap-4 mb-2 text-sm">
+                  <span className="text-gray-700 truncate">{fileJob.label}…</span>
+                  <span className="font-mono text-indigo-600 ml-auto">
+                    {fileJob.total > 0
+                      ? `${Math.floor((fileJob.done / fileJob.total) * 100)}%`
+                      : "Starting"}
+                  </span>
+                  <button
+                    onClick={() => fileWorker.cancel()}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white text-gray-600 hover:bg-gray-100 border border-indigo-100 shadow-sm transition-all"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-2 bg-white rounded-full overflow-hidden border border-indigo-100">
+                  <div
+                    className="h-full bg-gradient-to-r from-indigo-600 to-purple-600 transition-all"
+                    style={{
+                      width: `${fileJob.total > 0 ? (fileJob.done / fileJob.total) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {fileError && (
+              <div className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 p-4 rounded-xl">
+                <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+                <p className="text-sm">{fileError}</p>
+              </div>
+            )}
+
+            {fileMode === "compress" ? (
+              <>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="font-medium text-gray-700">Read file as</span>
+                  {([
+                    ["text", "Text (UTF-8 characters)"],
+                    ["bytes", "Raw bytes (any file)"],
+                  ] as const).map(([type, label]) => (
+                    <label key={type} className="flex items-center gap-2 text-gray-600">
+                      <input
+                        type="radio"
+                        name="upload-as"
+                        checked={uploadAs === type}
+                        onChange={() => setUploadAs(type)}
+                        className="accent-indigo-600"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="font-medium text-gray-700">Coding</span>
+                  {([
+                    ["static", "Static (codebook in header)"],
+                    ["adaptive", "Adaptive (no codebook)"],
+                    ["block", "Blocks (codebook per block)"],
+                  ] as const).map(([coding, label]) => (
+                    <label key={coding} className="flex items-center gap-2 text-gray-600">
+                      <input
+                        type="radio"
+                        name="archive-coding"
+                        checked={archiveCoding === coding}
+                        onChange={() => setArchiveCoding(coding)}
+                        className="accent-indigo-600"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                {archiveCoding === "block" && (
+                  <label className="flex items-center gap-3 text-sm">
+                    <span className="font-medium text-gray-700">Symbols per block</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1024}
+                      value={blockSize}
+                      onChange={(e) =>
+                        setBlockSize(Math.max(1, Math.round(e.target.valueAsNumber || 1)))
+                      }
+                      className="w-32 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+                    />
+                    <span className="text-gray-500">
+                      Each block gets its own tree, following local statistics
+                    </span>
+                  </label>
+                )}
+                <div className="flex flex-col items-center justify-center border-2 border-dashed border-indigo-200 rounded-xl p-8 bg-indigo-50/50 hover:bg-indigo-50/70 transition-colors">
+                  <input
+                    type="file"
+                    ref={fileInputRef}
+                    onChange={handleFileUpload}
+                    className="hidden"
+                    accept={uploadAs === "text" ? ".txt" : undefined}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-indigo-600 text-white px-8 py-4 rounded-xl hover:bg-indigo-700 transition-all flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                  >
+                    <FileUp className="w-5 h-5" />
+                    {uploadAs === "text" ? "Upload Text File" : "Upload Any File"}
+                  </button>
+                  <p className="text-sm text-gray-500 mt-4">
+                    {uploadAs === "text"
+                      ? "Upload a .txt file to compress using M-ary Huffman coding"
+                      : "Images, PDFs and other binary files are coded byte by byte"}
+                  </p>
+                </div>
+
+                {compressedFile && (
+                  <button
+                    onClick={downloadCompressedFile}
+                    className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 text-white px-8 py-4 rounded-xl hover:from-purple-700 hover:to-indigo-700 transition-all flex items-center gap-3 justify-center shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                  >
+                    <Download className="w-5 h-5" />
+                    Download Compressed File
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="flex flex-col items-center justify-center border-2 border-dashed border-indigo-200 rounded-xl p-8 bg-indigo-50/50 hover:bg-indigo-50/70 transition-colors">
+                  <input
+                    type="file"
+                    ref={archiveInputRef}
+                    onChange={handleArchiveUpload}
+                    className="hidden"
+                    accept={ARCHIVE_EXTENSION}
+                  />
+                  <button
+                    onClick={() => archiveInputRef.current?.click()}
+                    className="bg-indigo-600 text-white px-8 py-4 rounded-xl hover:bg-indigo-700 transition-all flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                  >
+                    <FileDown className="w-5 h-5" />
+                    Upload Compressed File
+                  </button>
+                  <p className="text-sm text-gray-500 mt-4">
+                    Upload a file produced by the compressor to recover the original text
+                  </p>
+                </div>
+
+                {decompressedFile && (
+                  <div className="space-y-4">
+                    <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100">
+                      <div className="flex justify-between items-center mb-3">
+                        <span className="font-mono text-sm bg-white px-3 py-1 rounded-lg shadow-sm border border-indigo-100 truncate">
+                          {decompressedFile.name}
+                        </span>
+                        <span className="font-mono text-sm text-indigo-600 bg-white px-3 py-1 rounded-lg shadow-sm border border-indigo-100">
+                          M = {decompressedFile.mValue}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">
+                        Recovered {decompressedFile.blob.size} bytes
+                        {decompressedFile.symbolType === "bytes" && " (byte archive)"}
+                        {decompressedFile.coding === "adaptive" && ", adaptive coding"}
+                        {decompressedFile.coding === "block" && ", block coding"}
+                      </p>
+                      <div className="font-mono text-sm bg-white px-4 py-2 rounded-lg shadow-sm border border-indigo-100 max-h-32 overflow-y-auto whitespace-pre-wrap break-all">
+                        {previewContents(
+                          decompressedFile.preview,
+                          decompressedFile.blob.size,
+                          decompressedFile.symbolType
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-4">
+                      <button
+                        onClick={async () => {
+                          const data = new Uint8Array(await decompressedFile.blob.arrayBuffer());
+                          setInputMode("text");
+                          setMValue(decompressedFile.mValue);
+                          setSymbolModel(decompressedFile.model);
+                          if (decompressedFile.symbolType === "bytes") {
+                            setInputBytes({ name: decompressedFile.name, data });
+                          } else {
+                            setInputBytes(null);
+                            setInputText(textDecoder.decode(data));
+                          }
+                        }}
+                        className="flex-1 bg-gray-100 text-gray-700 px-6 py-4 rounded-xl hover:bg-gray-200 transition-all flex items-center gap-3 justify-center shadow-sm"
+                      >
+                        <TreePine className="w-5 h-5" />
+                        Open in Visualizer
+                      </button>
+                      <button
+                        onClick={downloadDecompressedFile}
+                        className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 text-white px-6 py-4 rounded-xl hover:from-purple-700 hover:to-indigo-700 transition-all flex items-center gap-3 justify-center shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                      >
+                        <Download className="w-5 h-5" />
+                        Download Original
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  ARCHIVE_EXTENSION,
+  ArchiveError,
+  CodeMode,
+  SYMBOL_MODEL_IDS,
+  STANDARD_DIGITS,
+  SymbolModel,
+  calculateMetrics,
+  calculateRequiredDummies,
+  codebookSize,
+  compress,
+  decompress,
+  displaySymbol,
+  encode,
+  encodeAdaptive,
+  formatCodeword,
+  literalKindFor,
+  maxCodeLength,
+} from "../lib";
+
+const USAGE = `Usage: mary <command> [options] [file]
+
+Commands:
+  compress     Write an ${ARCHIVE_EXTENSION} archive (readable by the web UI)
+  decompress   Restore the original file from an archive
+  stats        Print entropy, average length and size figures
+  codes        Print the codebook
+
+Options:
+  -m, --m <n>      Branching factor, 2-64 (default 3)
+  -b, --bytes      Code bytes instead of UTF-8 characters
+  -s, --model <s>  Text symbol model: ${SYMBOL_MODEL_IDS.join(", ")}
+                   (default char)
+  -a, --adaptive   Write a one-pass adaptive archive with no codebook
+  -k, --block <n>  Split the archive into blocks of n symbols, each with
+                   its own codebook
+  -L, --max-length <n>
+                   Limit codewords to n digits (length-limited code)
+  -c, --canonical  Show canonical codes (codes command)
+  -o, --output <f> Output file (default stdout)
+  -h, --help       Show this message
+
+Reads from stdin when no file is given.`;
+
+function readInput(file: string | undefined): Buffer {
+  return readFileSync(file ?? process.stdin.fd);
+}
+
+function writeOutput(file: string | undefined, data: Uint8Array | string): void {
+  if (file) writeFileSync(file, data);
+  else process.stdout.write(data);
+}
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      m: { type: "string", short: "m", default: "3" },
+      bytes: { type: "boolean", short: "b", default: false },
+      model: { type: "string", short: "s", default: "char" },
+      adaptive: { type: "boolean", short: "a", default: false },
+      block: { type: "string", short: "k" },
+      "max-length": { type: "string", short: "L" },
+      canonical: { type: "boolean", short: "c", default: false },
+      output: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, file] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const m = Number(values.m);
+  const maxLength =
+    values["max-length"] === undefined ? undefined : Number(values["max-length"]);
+  const model = values.model as SymbolModel;
+  if (!SYMBOL_MODEL_IDS.includes(model)) {
+    console.error(`mary: unknown symbol model ${values.model}`);
+    return 1;
+  }
+  const input = readInput(file);
+  // Text mode decodes UTF-8 so that multi-byte characters are single symbols
+  const source = values.bytes ? new Uint8Array(input) : input.toString("utf8");
+
+  switch (command) {
+    case "compress": {
+      const fileName = file ? basename(file) : "";
+      writeOutput(values.output, compress(source, {
+          m,
+          fileName,
+          model,
+          maxLength,
+          coding: values.block ? "block" : values.adaptive ? "adaptive" : "static",
+          blockSize: values.block ? Number(values.block) : undefined,
+        }));
+      return 0;
+    }
+    case "decompress": {
+      const result = decompress(new Uint8Array(input));
+      writeOutput(values.output, result.data);
+      return 0;
+    }
+    case "stats": {
+      const result = encode(source, { m, model, maxLength });
+      const metrics = calculateMetrics(result.frequencies, result.codeLengths, m);
+      const huffman = calculateMetrics(result.frequencies, result.huffmanCodeLengths, m);
+      const lines = [
+        `m                 ${m}`,
+        `symbol model      ${result.model}`,
+        `symbols           ${metrics.totalSymbols} (${result.frequencies.size} distinct)`,
+        `dummy nodes       ${calculateRequiredDummies(result.frequencies.size, m)}`,
+        `original bytes    ${result.originalBytes}`,
+        `entropy           ${metrics.entropy.toFixed(4)} digits/symbol`,
+        `average length    ${metrics.averageLength.toFixed(4)} digits/symbol`,
+        ...(maxLength === undefined
+          ? []
+          : [
+              `length limit      ${maxLength} (longest ${maxCodeLength(result.codeLengths)}, ` +
+                `Huffman ${maxCodeLength(result.huffmanCodeLengths)})`,
+              `Huffman average   ${huffman.averageLength.toFixed(4)} digits/symbol`,
+            ]),
+        `efficiency        ${(metrics.efficiency * 100).toFixed(2)}%`,
+        `total digits      ${metrics.totalDigits}`,
+        `equivalent bits   ${metrics.equivalentBits.toFixed(1)}`,
+        `codebook bytes    ${codebookSize(result.codeLengths, result.symbolType)}`,
+        `archive bytes     ${compress(source, { m, model, maxLength }).length}`,
+        `adaptive digits   ${encodeAdaptive(
+          result.symbols,
+          m,
+          literalKindFor(result.symbolType, result.model)
+        ).length}`,
+        `adaptive archive  ${compress(source, { m, model, coding: "adaptive" }).length} bytes`,
+      ];
+      writeOutput(values.output, lines.join("\n") + "\n");
+      return 0;
+    }
+    case "codes": {
+      const codeMode: CodeMode = values.canonical ? "canonical" : "tree";
+      const result = encode(source, { m, codeMode, model, maxLength });
+      const codes =
+        codeMode === "canonical" ? result.canonicalCodes : result.treeCodes;
+      const hex = result.symbolType === "bytes";
+      const lines = Array.from(result.frequencies)
+        .sort(([, a], [, b]) => b - a)
+        .map(
+          ([symbol, freq]) =>
+            `${displaySymbol(symbol, hex)}\t${freq}\t${formatCodeword(
+              codes.get(symbol),
+              STANDARD_DIGITS
+            )}`
+        );
+      writeOutput(values.output, lines.join("\n") + "\n");
+      return 0;
+    }
+    default:
+      console.error(`Unknown command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  if (
+    error instanceof ArchiveError ||
+    error instanceof RangeError ||
+    error instanceof TypeError
+  ) {
+    console.error(`mary: ${error.message}`);
+    process.exitCode = 1;
+  } else {
+    throw error;
+  }
+}
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RotateCcw,
+  Shuffle,
+} from "lucide-react";
+import { LiteralKind, recordAdaptive } from "../lib/adaptive";
+import { formatDigits } from "../lib/alphabet";
+import { displaySymbol } from "../lib/symbols";
+import TreeVisualization from "./TreeVisualization";
+
+const STEP_INTERVAL_MS = 1200;
+// Every frame keeps a copy of the tree, so only replay the start of long inputs
+const MAX_FRAMES = 200;
+
+function AdaptivePlayer({
+  symbols,
+  m,
+  literal,
+  digitSymbols,
+  hexSymbols,
+}: {
+  symbols: string | string[];
+  m: number;
+  literal: LiteralKind;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const frames = useMemo(
+    () => recordAdaptive(Array.from(symbols.slice(0, MAX_FRAMES)), m, literal, MAX_FRAMES),
+    [symbols, m, literal]
+  );
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  // Start over whenever the input or m changes
+  useEffect(() => {
+    setFrameIndex(0);
+    setPlaying(false);
+  }, [frames]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (frameIndex >= frames.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex((i) => i + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, frames.length]);
+
+  if (frames.length === 0) return null;
+
+  const frame = frames[Math.min(frameIndex, frames.length - 1)];
+  const atStart = frameIndex === 0;
+  const atEnd = frameIndex >= frames.length - 1;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Shuffle className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Adaptive Coding
+        </h2>
+      </div>
+
+      <div className="flex items-center gap-2 mb-6">
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setFrameIndex(0);
+          }}
+          disabled={atStart}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Restart"
+        >
+          <RotateCcw className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setFrameIndex((i) => Math.max(0, i - 1));
+          }}
+          disabled={atStart}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Step back"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            if (atEnd) setFrameIndex(0);
+            setPlaying((p) => !p);
+          }}
+          className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg hover:shadow-xl transition-all"
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setFrameIndex((i) => Math.min(frames.length - 1, i + 1));
+          }}
+          disabled={atEnd}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Step forward"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+        <span className="ml-auto font-mono text-sm text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg border border-indigo-100">
+          Symbol {frameIndex + 1} / {frames.length}
+          {symbols.length > frames.length && ` of ${symbols.length}`}
+        </span>
+      </div>
+
+      <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">
+            {frame.isNew ? "New symbol " : "Symbol "}
+            <span className="font-mono">{displaySymbol(frame.symbol, hexSymbols)}</span>
+          </h3>
+          <p className="text-sm mt-1 text-gray-600">
+            {frame.isNew
+              ? "Sent as the NYT codeword followed by the symbol itself, then given its own leaf."
+              : "Sent with its current codeword, then its weight is incremented."}{" "}
+            {frame.swaps > 0
+              ? `The update swapped ${frame.swaps} subtree${frame.swaps === 1 ? "" : "s"} to keep the tree optimal.`
+              : "No swaps were needed."}
+          </p>
+        </div>
+        <div className="font-mono text-sm bg-white px-4 py-2 rounded-lg shadow-sm border border-indigo-100">
+          <span className="text-purple-600">{frame.isNew ? "NYT: " : "Code: "}</span>
+          <span className="text-indigo-600">
+            {formatDigits(frame.code, digitSymbols) || "(empty)"}
+          </span>
+          {frame.isNew && (
+            <>
+              <span className="text-purple-600 ml-4">Literal: </span>
+              <span className="text-indigo-600">
+                {formatDigits(frame.literal, digitSymbols)}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="bg-white/60 rounded-xl border border-indigo-100">
+          <TreeVisualization
+            root={frame.tree}
+            digitSymbols={digitSymbols}
+            hexSymbols={hexSymbols}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AdaptivePlayer;
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Gauge, Play, X } from "lucide-react";
+import { MAX_BRANCHING_FACTOR, MIN_BRANCHING_FACTOR } from "../lib/alphabet";
+import { BenchmarkResult, MAX_BENCHMARK_ALPHABET } from "../lib/benchmark";
+import { CoderWorkerClient, JobCancelledError } from "../workers/coderClient";
+
+function formatRate(items: number, ms: number): string {
+  const perSecond = items / (ms / 1000);
+  if (perSecond >= 1e6) return `${(perSecond / 1e6).toFixed(1)}M`;
+  if (perSecond >= 1e3) return `${(perSecond / 1e3).toFixed(1)}k`;
+  return perSecond.toFixed(0);
+}
+
+function BenchmarkPanel({ initialM }: { initialM: number }) {
+  const [alphabetSize, setAlphabetSize] = useState(10000);
+  const [millions, setMillions] = useState(2);
+  const [m, setM] = useState(initialM);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Its own worker, so a long run never holds up the visualizer
+  const [worker] = useState(() => new CoderWorkerClient());
+
+  useEffect(() => () => worker.cancel(), [worker]);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setResult(
+        await worker.run({
+          type: "benchmark",
+          options: { alphabetSize, symbolCount: Math.round(millions * 1e6), m },
+        })
+      );
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        setError(error instanceof Error ? error.message : "The benchmark failed");
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Gauge className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Benchmark</h2>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-6">
+        Times each stage of the coder on generated Zipf-distributed text with a
+        large alphabet of CJK characters. Runs in a background worker, so the
+        page stays responsive while it works.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Alphabet size
+          </label>
+          <input
+            type="number"
+            min={2}
+            max={MAX_BENCHMARK_ALPHABET}
+            step={1000}
+            value={alphabetSize}
+            onChange={(e) =>
+              setAlphabetSize(
+                Math.min(MAX_BENCHMARK_ALPHABET, Math.max(2, Math.round(e.target.valueAsNumber || 2)))
+              )
+            }
+            className="w-36 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Input (million symbols)
+          </label>
+          <input
+            type="number"
+            min={0.1}
+            max={20}
+            step={0.5}
+            value={millions}
+            onChange={(e) =>
+              setMillions(Math.min(20, Math.max(0.1, e.target.valueAsNumber || 0.1)))
+            }
+            className="w-36 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">m</label>
+          <input
+            type="number"
+            min={MIN_BRANCHING_FACTOR}
+            max={MAX_BRANCHING_FACTOR}
+            value={m}
+            onChange={(e) => {
+              const value = Math.round(e.target.valueAsNumber);
+              if (value >= MIN_BRANCHING_FACTOR && value <= MAX_BRANCHING_FACTOR) {
+                setM(value);
+              }
+            }}
+            className="w-24 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+        </div>
+        <button
+          onClick={run}
+          disabled={running}
+          className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-xl shadow-lg hover:shadow-xl disabled:opacity-50 transition-all flex items-center gap-2"
+        >
+          <Play className="w-5 h-5" />
+          {running ? "Running…" : "Run benchmark"}
+        </button>
+        {running && (
+          <button
+            onClick={() => worker.cancel()}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+          >
+            <X className="w-5 h-5" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 p-4 rounded-xl mb-6">
+          <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <p className="text-sm text-gray-600 mb-4 font-mono">
+            {result.options.symbolCount.toLocaleString()} symbols,{" "}
+            {result.distinctSymbols.toLocaleString()} distinct,{" "}
+            {(result.inputBytes / 1e6).toFixed(1)} MB as UTF-8 →{" "}
+            {result.digits.toLocaleString()} digits at m = {result.options.m}
+          </p>
+          <div className="overflow-x-auto rounded-xl border border-indigo-100">
+            <table className="w-full text-sm font-mono">
+              <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 text-left">Stage</th>
+                  <th className="px-4 py-2 text-right">Time</th>
+                  <th className="px-4 py-2 text-right">Throughput</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.timings.map((timing) => (
+                  <tr key={timing.label} className="border-t border-indigo-50 bg-white">
+                    <td className="px-4 py-2">{timing.label}</td>
+                    <td className="px-4 py-2 text-right">{timing.ms.toFixed(1)} ms</td>
+                    <td className="px-4 py-2 text-right text-gray-500">
+                      {timing.items && timing.ms > 0
+                        ? `${formatRate(timing.items, timing.ms)} ${timing.unit}/s`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BenchmarkPanel;
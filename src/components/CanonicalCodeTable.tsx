@@ -0,0 +1,73 @@
+import { ListOrdered } from "lucide-react";
+import { formatCodeword } from "../lib/alphabet";
+import { sortCanonically } from "../lib/canonical";
+import { Codeword } from "../lib/huffman";
+import { displaySymbol } from "../lib/symbols";
+
+function CanonicalCodeTable({
+  frequencies,
+  codeLengths,
+  treeCodes,
+  canonicalCodes,
+  digitSymbols,
+  hexSymbols,
+}: {
+  frequencies: Map<string, number>;
+  codeLengths: Map<string, number>;
+  treeCodes: Map<string, Codeword>;
+  canonicalCodes: Map<string, Codeword>;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const rows = sortCanonically(codeLengths);
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <ListOrdered className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Canonical Codebook
+        </h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Canonical codewords are assigned in order of (length, symbol), so a
+        decoder can rebuild them from the {rows.length} (symbol, length) pairs
+        alone.
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-indigo-100">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 text-left">Symbol</th>
+              <th className="px-4 py-2 text-right">Freq</th>
+              <th className="px-4 py-2 text-right">Length</th>
+              <th className="px-4 py-2 text-left">Tree Code</th>
+              <th className="px-4 py-2 text-left">Canonical Code</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([char, length]) => (
+              <tr key={char} className="border-t border-indigo-50 bg-white">
+                <td className="px-4 py-2">{displaySymbol(char, hexSymbols)}</td>
+                <td className="px-4 py-2 text-right text-gray-600">
+                  {frequencies.get(char)}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600">{length}</td>
+                <td className="px-4 py-2 text-indigo-600">
+                  {formatCodeword(treeCodes.get(char), digitSymbols)}
+                </td>
+                <td className="px-4 py-2 text-purple-600">
+                  {formatCodeword(canonicalCodes.get(char), digitSymbols)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default CanonicalCodeTable;
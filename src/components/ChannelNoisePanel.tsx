@@ -0,0 +1,379 @@
+import { useMemo, useState } from "react";
+import { Dices, RadioTower } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { formatDigits } from "../lib/alphabet";
+import { ChannelRun, NoiseKind, simulateChannel, syncMarkerRun } from "../lib/channelNoise";
+import { Codeword } from "../lib/huffman";
+import { displaySymbol } from "../lib/symbols";
+
+// Only the start of long inputs goes through the channel
+const MAX_SYMBOLS = 2000;
+// Symbols and digits drawn below the stats
+const MAX_SHOWN = 300;
+// Error rates for the loss curve
+const SWEEP_RATES = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05];
+
+const NOISE_KINDS: { id: NoiseKind; name: string; description: string }[] = [
+  {
+    id: "substitution",
+    name: "Substitutions",
+    description: "Each digit is replaced by another with the given chance",
+  },
+  {
+    id: "burst",
+    name: "Bursts",
+    description: "A run of consecutive digits is replaced",
+  },
+  {
+    id: "indel",
+    name: "Insertions/deletions",
+    description: "A digit is dropped, or a random one slipped in",
+  },
+];
+
+function summarize(run: ChannelRun) {
+  const longest = run.episodes.reduce((max, length) => Math.max(max, length), 0);
+  const average =
+    run.episodes.length > 0
+      ? run.episodes.reduce((sum, length) => sum + length, 0) / run.episodes.length
+      : 0;
+  return { longest, average };
+}
+
+function ChannelNoisePanel({
+  symbols,
+  codes,
+  m,
+  digitSymbols,
+  hexSymbols,
+}: {
+  symbols: string | string[];
+  codes: Map<string, Codeword>;
+  m: number;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const [kind, setKind] = useState<NoiseKind>("substitution");
+  const [ratePercent, setRatePercent] = useState(1);
+  const [burstLength, setBurstLength] = useState(4);
+  const [seed, setSeed] = useState(1);
+  const [markers, setMarkers] = useState(false);
+  const [syncInterval, setSyncInterval] = useState(8);
+
+  const input = useMemo(
+    () => Array.from(symbols).slice(0, MAX_SYMBOLS),
+    [symbols]
+  );
+
+  // The same damage pattern with and without markers, so the two compare
+  const runs = useMemo(() => {
+    const noise = { kind, rate: ratePercent / 100, burstLength, seed };
+    return {
+      plain: simulateChannel(input, codes, m, { noise, syncInterval: null }),
+      framed: simulateChannel(input, codes, m, { noise, syncInterval }),
+    };
+  }, [input, codes, m, kind, ratePercent, burstLength, seed, syncInterval]);
+
+  const sweep = useMemo(
+    () =>
+      SWEEP_RATES.map((rate) => {
+        const noise = { kind, rate, burstLength, seed };
+        const loss = (interval: number | null) => {
+          const run = simulateChannel(input, codes, m, { noise, syncInterval: interval });
+          return Number(((run.lost / Math.max(1, input.length)) * 100).toFixed(2));
+        };
+        return {
+          rate: `${rate * 100}%`,
+          "No markers": loss(null),
+          [`Marker every ${syncInterval}`]: loss(syncInterval),
+        };
+      }),
+    [input, codes, m, kind, burstLength, seed, syncInterval]
+  );
+
+  if (input.length === 0 || codes.size === 0) return null;
+
+  const run = markers ? runs.framed : runs.plain;
+  const { longest, average } = summarize(run);
+
+  const digitClass = (digit: ChannelRun["received"][number]) =>
+    digit.damage === "inserted"
+      ? "bg-red-500 text-white"
+      : digit.damage === "substituted"
+        ? "bg-red-100 text-red-700"
+        : digit.role === "marker"
+          ? "bg-purple-100 text-purple-700"
+          : digit.role === "stuff"
+            ? "bg-gray-200 text-gray-500"
+            : "text-gray-700";
+
+  const stats = [
+    { label: "Channel errors", value: run.errors },
+    { label: "Symbols lost", value: `${run.lost} / ${input.length}` },
+    { label: "Garbled output", value: run.garbled },
+    {
+      label: "Symbols to resync",
+      value: run.episodes.length > 0 ? `${average.toFixed(1)} avg, ${longest} max` : "—",
+    },
+    { label: "Damaged stuffing", value: run.framingErrors },
+  ];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <RadioTower className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Noisy Channel</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        The encoded digits pass through a noisy channel and are decoded with the
+        same tree. One wrong digit can throw the decoder off codeword boundaries
+        for several symbols. Sync markers ({syncMarkerRun(m)} top digits and a
+        0, with a 0 stuffed into the data after {syncMarkerRun(m) - 1} top digits
+        in a row) let it restart, at the cost of extra digits.
+        {symbols.length > input.length && ` Only the first ${input.length} symbols are sent.`}
+      </p>
+
+      <div className="space-y-4 mb-6">
+        <div className="flex flex-wrap gap-2">
+          {NOISE_KINDS.map((noise) => (
+            <button
+              key={noise.id}
+              onClick={() => setKind(noise.id)}
+              title={noise.description}
+              className={`text-sm px-4 py-2 rounded-xl transition-all ${
+                kind === noise.id
+                  ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {noise.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="font-medium text-gray-700">
+              {kind === "burst" ? "Burst rate" : "Error rate"}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              step={0.1}
+              value={ratePercent}
+              onChange={(e) => setRatePercent(e.target.valueAsNumber)}
+              className="accent-indigo-600"
+            />
+            <span className="font-mono text-indigo-600 w-14">{ratePercent.toFixed(1)}%</span>
+          </label>
+          {kind === "burst" && (
+            <label className="flex items-center gap-2">
+              <span className="font-medium text-gray-700">Burst length</span>
+              <input
+                type="number"
+                min={1}
+                value={burstLength}
+                onChange={(e) =>
+                  setBurstLength(Math.max(1, Math.round(e.target.valueAsNumber || 1)))
+                }
+                className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <span className="font-medium text-gray-700">Seed</span>
+            <input
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(Math.round(e.target.valueAsNumber || 0))}
+              className="w-24 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+            />
+            <button
+              onClick={() => setSeed(Math.floor(Math.random() * 1_000_000))}
+              className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+              title="New seed"
+            >
+              <Dices className="w-4 h-4" />
+            </button>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={markers}
+              onChange={(e) => setMarkers(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            <span className="font-medium text-gray-700">Sync marker every</span>
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={syncInterval}
+            onChange={(e) =>
+              setSyncInterval(Math.max(1, Math.round(e.target.valueAsNumber || 1)))
+            }
+            className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+          <span className="text-gray-700">symbols</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100"
+          >
+            <p className="text-xs font-medium text-gray-600 mb-1">{stat.label}</p>
+            <p className="text-lg font-bold text-indigo-600 font-mono">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-indigo-100 mb-6">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 text-left">Framing</th>
+              <th className="px-4 py-2 text-right">Digits sent</th>
+              <th className="px-4 py-2 text-right">Overhead</th>
+              <th className="px-4 py-2 text-right">Errors</th>
+              <th className="px-4 py-2 text-right">Lost</th>
+              <th className="px-4 py-2 text-right">Avg resync</th>
+              <th className="px-4 py-2 text-right">Max resync</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[
+              { name: "No markers", result: runs.plain },
+              { name: `Marker every ${syncInterval}`, result: runs.framed },
+            ].map(({ name, result }) => {
+              const summary = summarize(result);
+              return (
+                <tr
+                  key={name}
+                  className={`border-t border-indigo-50 ${
+                    result === run ? "bg-amber-50" : "bg-white"
+                  }`}
+                >
+                  <td className="px-4 py-2 font-semibold text-indigo-600">{name}</td>
+                  <td className="px-4 py-2 text-right">{result.sentDigits}</td>
+                  <td className="px-4 py-2 text-right">
+                    {result.overhead} (
+                    {((result.overhead / Math.max(1, result.sentDigits)) * 100).toFixed(1)}%)
+                  </td>
+                  <td className="px-4 py-2 text-right">{result.errors}</td>
+                  <td className="px-4 py-2 text-right">{result.lost}</td>
+                  <td className="px-4 py-2 text-right">{summary.average.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right">{summary.longest}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100 mb-6">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">
+          Symbols lost (%) vs. channel error rate
+        </h3>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={sweep}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+              <XAxis dataKey="rate" />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="No markers" stroke="#6366f1" strokeWidth={2} />
+              <Line
+                type="monotone"
+                dataKey={`Marker every ${syncInterval}`}
+                stroke="#c084fc"
+                strokeWidth={2}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Sent (red: not recovered)
+          </p>
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+            {run.sent.slice(0, MAX_SHOWN).map((symbol, index) => (
+              <span
+                key={index}
+                className={`px-2 py-0.5 rounded-md border font-mono text-sm ${
+                  symbol.recovered
+                    ? "bg-white border-indigo-100 text-gray-700"
+                    : "bg-red-50 border-red-300 text-red-700"
+                }`}
+              >
+                {displaySymbol(symbol.symbol, hexSymbols)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Decoded (red: garbled, ∅ for digits that end in no codeword)
+          </p>
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+            {run.decoded.slice(0, MAX_SHOWN).map((symbol, index) => (
+              <span
+                key={index}
+                className={`px-2 py-0.5 rounded-md border font-mono text-sm ${
+                  symbol.correct
+                    ? "bg-white border-indigo-100 text-gray-700"
+                    : "bg-red-50 border-red-300 text-red-700"
+                }`}
+              >
+                {symbol.symbol === null ? "∅" : displaySymbol(symbol.symbol, hexSymbols)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Received digits ({run.deleted} deleted)
+          </p>
+          <div className="flex flex-wrap gap-0.5 max-h-40 overflow-y-auto bg-white p-3 rounded-xl border border-indigo-100 font-mono text-sm">
+            {run.received.slice(0, MAX_SHOWN * 4).map((digit, index) => (
+              <span key={index} className={`px-0.5 rounded ${digitClass(digit)}`}>
+                {formatDigits([digit.digit], digitSymbols)}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500">
+            <span><span className="px-1 rounded bg-red-100 text-red-700">d</span> substituted</span>
+            <span><span className="px-1 rounded bg-red-500 text-white">d</span> inserted</span>
+            <span><span className="px-1 rounded bg-purple-100 text-purple-700">d</span> marker</span>
+            <span><span className="px-1 rounded bg-gray-200 text-gray-500">d</span> stuffed</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ChannelNoisePanel;
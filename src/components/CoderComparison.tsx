@@ -0,0 +1,230 @@
+import { CheckCircle2, Scale, XCircle } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { formatCodeword } from "../lib/alphabet";
+import { CODER_NAMES, CoderResult } from "../lib/comparison";
+import { displaySymbol } from "../lib/symbols";
+
+// Codeword tables only list the most frequent symbols and first words
+const MAX_ROWS = 50;
+
+function CoderComparison({
+  open,
+  onToggle,
+  results,
+  frequencies,
+  entropy,
+  m,
+  digitSymbols,
+  hexSymbols,
+}: {
+  // The other coders only run while the panel is open
+  open: boolean;
+  onToggle: () => void;
+  results: CoderResult[];
+  frequencies: Map<string, number>;
+  entropy: number;
+  m: number;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const prefixCoders = results.filter((result) => result.codes);
+  const tunstall = results.find((result) => result.dictionary);
+  const symbols = Array.from(frequencies)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_ROWS)
+    .map(([symbol]) => symbol);
+
+  const chartData = results.map((result) => ({
+    name: CODER_NAMES[result.coder],
+    coder: result.coder,
+    "Average length": Number(result.averageLength.toFixed(4)),
+  }));
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Scale className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Coder Comparison</h2>
+        <button
+          onClick={onToggle}
+          className="ml-auto text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all"
+        >
+          {open ? "Hide" : "Compare coders"}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600">
+        The same input and frequencies coded at m = {m} by other schemes. Each
+        output is decoded again and checked against the input.
+      </p>
+
+      {open && results.length === 0 && (
+        <p className="text-sm text-indigo-600 mt-4">Running the other coders…</p>
+      )}
+      {open && results.length > 0 && (
+        <div className="mt-4">
+
+          <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100 mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Average length vs. entropy (digits/symbol)
+            </h3>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <ReferenceLine
+                    y={Number(entropy.toFixed(4))}
+                    stroke="#c084fc"
+                    strokeDasharray="5 5"
+                    label={{ value: "Entropy", position: "insideTopRight", fill: "#9333ea" }}
+                  />
+                  <Bar dataKey="Average length">
+                    {chartData.map((row) => (
+                      <Cell
+                        key={row.coder}
+                        fill={row.coder === "huffman" ? "#f59e0b" : "#6366f1"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-indigo-100 mb-6">
+            <table className="w-full text-sm font-mono">
+              <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 text-left">Coder</th>
+                  <th className="px-4 py-2 text-right">Avg len</th>
+                  <th className="px-4 py-2 text-right">Total digits</th>
+                  <th className="px-4 py-2 text-right">Equiv. bits</th>
+                  <th className="px-4 py-2 text-right">Efficiency</th>
+                  <th className="px-4 py-2 text-center">Round trip</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={result.coder}
+                    className={`border-t border-indigo-50 ${
+                      result.coder === "huffman" ? "bg-amber-50" : "bg-white"
+                    }`}
+                  >
+                    <td className="px-4 py-2 font-semibold text-indigo-600">
+                      {CODER_NAMES[result.coder]}
+                    </td>
+                    <td className="px-4 py-2 text-right">{result.averageLength.toFixed(4)}</td>
+                    <td className="px-4 py-2 text-right">{result.totalDigits}</td>
+                    <td className="px-4 py-2 text-right">{result.equivalentBits.toFixed(1)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {(result.efficiency * 100).toFixed(2)}%
+                    </td>
+                    <td className="px-4 py-2">
+                      {result.roundTrip ? (
+                        <CheckCircle2 className="w-5 h-5 text-green-600 mx-auto" />
+                      ) : (
+                        <XCircle className="w-5 h-5 text-red-600 mx-auto" />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                Codewords
+                {frequencies.size > symbols.length &&
+                  ` (${symbols.length} most frequent of ${frequencies.size} symbols)`}
+              </h3>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto rounded-xl border border-indigo-100">
+                <table className="w-full text-sm font-mono">
+                  <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Symbol</th>
+                      {prefixCoders.map((result) => (
+                        <th key={result.coder} className="px-4 py-2 text-left">
+                          {CODER_NAMES[result.coder]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {symbols.map((symbol) => (
+                      <tr key={symbol} className="border-t border-indigo-50 bg-white">
+                        <td className="px-4 py-2 text-gray-700">
+                          {displaySymbol(symbol, hexSymbols)}
+                        </td>
+                        {prefixCoders.map((result) => (
+                          <td key={result.coder} className="px-4 py-2 text-indigo-600">
+                            {formatCodeword(result.codes!.get(symbol) ?? [], digitSymbols)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {tunstall?.dictionary && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Tunstall dictionary: {tunstall.dictionary.length} words,{" "}
+                  {tunstall.dictionary[0].code.length} digits each
+                  {tunstall.dictionary.length > MAX_ROWS && ` (first ${MAX_ROWS} shown)`}
+                </h3>
+                <div className="overflow-x-auto max-h-80 overflow-y-auto rounded-xl border border-indigo-100">
+                  <table className="w-full text-sm font-mono">
+                    <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left">Word</th>
+                        <th className="px-4 py-2 text-left">Codeword</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tunstall.dictionary.slice(0, MAX_ROWS).map(({ word, code }, index) => (
+                        <tr key={index} className="border-t border-indigo-50 bg-white">
+                          <td className="px-4 py-2 text-gray-700">
+                            {word.map((symbol) => displaySymbol(symbol, hexSymbols)).join(" ")}
+                          </td>
+                          <td className="px-4 py-2 text-indigo-600">
+                            {formatCodeword(code, digitSymbols)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 mt-4">
+            Arithmetic coding has no per-symbol codewords: the whole input becomes a
+            single base-{m} number, so it can get below one digit per symbol.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CoderComparison;
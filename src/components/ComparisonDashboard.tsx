@@ -0,0 +1,230 @@
+import { useMemo, useState } from "react";
+import { Trophy, Layers } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { MAX_BRANCHING_FACTOR, MIN_BRANCHING_FACTOR } from "../lib/alphabet";
+import {
+  compareBranchingFactors,
+  findBestBranchingFactor,
+} from "../lib/comparison";
+
+function clampM(value: number): number {
+  if (Number.isNaN(value)) return MIN_BRANCHING_FACTOR;
+  return Math.min(MAX_BRANCHING_FACTOR, Math.max(MIN_BRANCHING_FACTOR, Math.round(value)));
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactElement }) {
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          {children}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function ComparisonDashboard({
+  frequencies,
+  currentM,
+  onSelectM,
+}: {
+  frequencies: Map<string, number>;
+  currentM: number;
+  onSelectM: (m: number) => void;
+}) {
+  const [fromM, setFromM] = useState(2);
+  const [toM, setToM] = useState(16);
+
+  const results = useMemo(
+    () => compareBranchingFactors(frequencies, fromM, toM),
+    [frequencies, fromM, toM]
+  );
+  const best = findBestBranchingFactor(results);
+
+  const chartData = results.map((result) => ({
+    m: result.m,
+    "Average length": Number(result.metrics.averageLength.toFixed(4)),
+    "Entropy bound": Number(result.metrics.entropy.toFixed(4)),
+    "Total digits": result.metrics.totalDigits,
+    "Equivalent bits": Number(result.metrics.equivalentBits.toFixed(1)),
+    "Dummy nodes": result.dummies,
+    "Efficiency (%)": Number((result.metrics.efficiency * 100).toFixed(2)),
+  }));
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Layers className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Branching Factor Comparison
+        </h2>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            From m
+          </label>
+          <input
+            type="number"
+            min={MIN_BRANCHING_FACTOR}
+            max={toM}
+            value={fromM}
+            onChange={(e) => setFromM(Math.min(clampM(e.target.valueAsNumber), toM))}
+            className="w-28 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            To m
+          </label>
+          <input
+            type="number"
+            min={fromM}
+            max={MAX_BRANCHING_FACTOR}
+            value={toM}
+            onChange={(e) => setToM(Math.max(clampM(e.target.valueAsNumber), fromM))}
+            className="w-28 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+          />
+        </div>
+        {best && (
+          <div className="flex items-center gap-3 bg-gradient-to-r from-amber-50 to-yellow-50 border border-amber-200 px-4 py-3 rounded-xl">
+            <Trophy className="w-5 h-5 text-amber-500" />
+            <p className="text-sm text-gray-700">
+              Best for this input: <span className="font-bold">m = {best.m}</span>{" "}
+              ({best.metrics.equivalentBits.toFixed(1)} equivalent bits,{" "}
+              {(best.metrics.efficiency * 100).toFixed(2)}% efficient)
+            </p>
+          </div>
+        )}
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-gray-500">Enter some text to compare branching factors.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <ChartCard title="Average codeword length vs. entropy (digits/symbol)">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                <XAxis dataKey="m" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="Average length" stroke="#6366f1" strokeWidth={2} />
+                <Line type="monotone" dataKey="Entropy bound" stroke="#c084fc" strokeDasharray="5 5" />
+              </LineChart>
+            </ChartCard>
+            <ChartCard title="Coding efficiency (%)">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                <XAxis dataKey="m" />
+                <YAxis domain={[0, 100]} />
+                <Tooltip />
+                <Line type="monotone" dataKey="Efficiency (%)" stroke="#16a34a" strokeWidth={2} />
+              </LineChart>
+            </ChartCard>
+            <ChartCard title="Equivalent bits (best m highlighted)">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                <XAxis dataKey="m" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="Equivalent bits">
+                  {chartData.map((row) => (
+                    <Cell
+                      key={row.m}
+                      fill={row.m === best?.m ? "#f59e0b" : "#6366f1"}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartCard>
+            <ChartCard title="Total digits and dummy nodes">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                <XAxis dataKey="m" />
+                <YAxis yAxisId="digits" />
+                <YAxis yAxisId="dummies" orientation="right" allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar yAxisId="digits" dataKey="Total digits" fill="#818cf8" />
+                <Bar yAxisId="dummies" dataKey="Dummy nodes" fill="#9ca3af" />
+              </BarChart>
+            </ChartCard>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-indigo-100">
+            <table className="w-full text-sm font-mono">
+              <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 text-right">m</th>
+                  <th className="px-4 py-2 text-right">Dummies</th>
+                  <th className="px-4 py-2 text-right">Max len</th>
+                  <th className="px-4 py-2 text-right">Avg len</th>
+                  <th className="px-4 py-2 text-right">Total digits</th>
+                  <th className="px-4 py-2 text-right">Equiv. bits</th>
+                  <th className="px-4 py-2 text-right">Efficiency</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={result.m}
+                    className={`border-t border-indigo-50 ${
+                      result.m === best?.m ? "bg-amber-50" : "bg-white"
+                    }`}
+                  >
+                    <td className="px-4 py-2 text-right font-semibold text-indigo-600">
+                      {result.m}
+                    </td>
+                    <td className="px-4 py-2 text-right">{result.dummies}</td>
+                    <td className="px-4 py-2 text-right">{result.maxLength}</td>
+                    <td className="px-4 py-2 text-right">
+                      {result.metrics.averageLength.toFixed(4)}
+                    </td>
+                    <td className="px-4 py-2 text-right">{result.metrics.totalDigits}</td>
+                    <td className="px-4 py-2 text-right">
+                      {result.metrics.equivalentBits.toFixed(1)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {(result.metrics.efficiency * 100).toFixed(2)}%
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => onSelectM(result.m)}
+                        disabled={result.m === currentM}
+                        className="text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-40 transition-all"
+                      >
+                        {result.m === currentM ? "Current" : "Visualize"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparisonDashboard;
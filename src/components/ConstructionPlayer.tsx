@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RotateCcw,
+  Workflow,
+} from "lucide-react";
+import { QueueEntry, recordConstruction } from "../lib/construction";
+import { TieBreak } from "../lib/priorityQueue";
+import { formatWeight } from "../lib/weightTable";
+
+const STEP_INTERVAL_MS = 1500;
+
+function QueueRow({
+  label,
+  entries,
+  highlighted,
+  highlightClass,
+}: {
+  label: string;
+  entries: QueueEntry[];
+  highlighted: number[];
+  highlightClass: string;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+        {label}
+      </p>
+      <div className="flex flex-wrap gap-2 min-h-[52px]">
+        {entries.length === 0 && (
+          <span className="text-sm text-gray-400 self-center">empty</span>
+        )}
+        {entries.map((node) => (
+          <div
+            key={node.id}
+            className={`flex flex-col items-center px-3 py-1 rounded-lg border font-mono text-sm transition-all ${
+              highlighted.includes(node.id)
+                ? highlightClass
+                : node.kind === "dummy"
+                  ? "bg-gray-50 border-gray-300 text-gray-400"
+                  : node.kind === "internal"
+                    ? "bg-purple-50 border-purple-200 text-purple-600"
+                    : "bg-indigo-50 border-indigo-200 text-indigo-600"
+            }`}
+          >
+            <span className="font-semibold">{node.label}</span>
+            <span className="text-xs">{formatWeight(node.freq)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ConstructionPlayer({
+  frequencies,
+  m,
+  hexSymbols,
+  tieBreak,
+}: {
+  frequencies: Map<string, number>;
+  m: number;
+  hexSymbols: boolean;
+  tieBreak: TieBreak;
+}) {
+  const steps = useMemo(
+    () => recordConstruction(frequencies, m, hexSymbols, tieBreak),
+    [frequencies, m, hexSymbols, tieBreak]
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  // Start over whenever the input or m changes
+  useEffect(() => {
+    setStepIndex(0);
+    setPlaying(false);
+  }, [steps]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepIndex >= steps.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex((i) => i + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stepIndex, steps.length]);
+
+  if (steps.length === 0) return null;
+
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const atStart = stepIndex === 0;
+  const atEnd = stepIndex >= steps.length - 1;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Workflow className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Tree Construction
+        </h2>
+      </div>
+
+      <div className="flex items-center gap-2 mb-6">
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setStepIndex(0);
+          }}
+          disabled={atStart}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Restart"
+        >
+          <RotateCcw className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setStepIndex((i) => Math.max(0, i - 1));
+          }}
+          disabled={atStart}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Step back"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            if (atEnd) setStepIndex(0);
+            setPlaying((p) => !p);
+          }}
+          className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg hover:shadow-xl transition-all"
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setStepIndex((i) => Math.min(steps.length - 1, i + 1));
+          }}
+          disabled={atEnd}
+          className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+          title="Step forward"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+        <span className="ml-auto font-mono text-sm text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg border border-indigo-100">
+          Step {stepIndex + 1} / {steps.length}
+        </span>
+      </div>
+
+      <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">{step.title}</h3>
+          <p
+            className={`text-sm mt-1 ${
+              step.kind === "dummies"
+                ? "font-mono bg-white px-3 py-2 rounded-lg border border-indigo-100 text-gray-700"
+                : "text-gray-600"
+            }`}
+          >
+            {step.description}
+          </p>
+        </div>
+        {step.queueBefore.length > 0 && (
+          <QueueRow
+            label="Queue before"
+            entries={step.queueBefore}
+            highlighted={step.dequeued}
+            highlightClass="bg-amber-100 border-amber-400 text-amber-700 ring-2 ring-amber-300"
+          />
+        )}
+        {step.kind !== "done" && (
+          <QueueRow
+            label="Queue after"
+            entries={step.queueAfter}
+            highlighted={step.enqueued}
+            highlightClass="bg-green-100 border-green-400 text-green-700 ring-2 ring-green-300"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ConstructionPlayer;
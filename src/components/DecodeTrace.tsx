@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RotateCcw,
+  Route,
+} from "lucide-react";
+import { formatCodeword, formatDigits } from "../lib/alphabet";
+import { segmentSymbols, traceDecode } from "../lib/decodeTrace";
+import { Codeword, HuffmanTreeNode } from "../lib/huffman";
+import { displaySymbol } from "../lib/symbols";
+import TreeVisualization from "./TreeVisualization";
+
+const STEP_INTERVAL_MS = 700;
+// Only the start of long inputs is traced
+const MAX_SYMBOLS = 200;
+
+function DecodeTrace({
+  symbols,
+  digits,
+  codes,
+  root,
+  digitSymbols,
+  hexSymbols,
+}: {
+  symbols: string | string[];
+  digits: Uint8Array;
+  codes: Map<string, Codeword>;
+  root: HuffmanTreeNode | null;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const segments = useMemo(
+    () => segmentSymbols(symbols, codes, MAX_SYMBOLS),
+    [symbols, codes]
+  );
+  const steps = useMemo(
+    () => traceDecode(root, digits, segments),
+    [root, digits, segments]
+  );
+  // Digits consumed so far: 0 is before the first one
+  const [stepCount, setStepCount] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [hoveredSymbol, setHoveredSymbol] = useState<number | null>(null);
+
+  // Start over whenever the input, m or the codes change
+  useEffect(() => {
+    setStepCount(0);
+    setPlaying(false);
+  }, [steps]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepCount >= steps.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepCount((n) => n + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stepCount, steps.length]);
+
+  if (segments.length === 0 || !root) return null;
+
+  const step = stepCount > 0 ? steps[stepCount - 1] : null;
+  const atStart = stepCount === 0;
+  const atEnd = stepCount >= steps.length;
+  // Symbol the decoder is working on (or has just finished)
+  const activeSymbol = step ? step.symbolIndex : -1;
+  const focus = hoveredSymbol ?? activeSymbol;
+  const highlightPath =
+    hoveredSymbol !== null ? segments[hoveredSymbol].code : step?.path ?? [];
+
+  const symbolClass = (index: number) =>
+    index === focus
+      ? "bg-amber-100 border-amber-400 text-amber-700"
+      : index < activeSymbol || (step?.completed && index === activeSymbol)
+        ? "bg-indigo-100 border-indigo-300 text-indigo-700"
+        : "bg-white border-indigo-100 text-gray-700";
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Route className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Decode Trace</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Input
+            {symbols.length > segments.length &&
+              ` (first ${segments.length} of ${symbols.length} symbols)`}
+          </p>
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                onPointerEnter={() => setHoveredSymbol(index)}
+                onPointerLeave={() => setHoveredSymbol(null)}
+                className={`px-2 py-0.5 rounded-md border font-mono text-sm cursor-default transition-colors ${symbolClass(index)}`}
+              >
+                {displaySymbol(segment.symbol, hexSymbols)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Encoded stream
+          </p>
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto bg-gray-900 p-3 rounded-xl">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                onPointerEnter={() => setHoveredSymbol(index)}
+                onPointerLeave={() => setHoveredSymbol(null)}
+                className={`px-1.5 py-0.5 rounded font-mono text-sm cursor-default ${
+                  index === focus ? "bg-amber-400/20 ring-1 ring-amber-400" : ""
+                }`}
+              >
+                {segment.code.map((digit, offset) => {
+                  const consumed = segment.start + offset < stepCount;
+                  return (
+                    <span
+                      key={offset}
+                      className={
+                        segment.start + offset === step?.position
+                          ? "text-amber-300 underline"
+                          : consumed
+                            ? "text-green-400"
+                            : "text-green-400/40"
+                      }
+                    >
+                      {formatDigits([digit], digitSymbols)}
+                    </span>
+                  );
+                })}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              setPlaying(false);
+              setStepCount(0);
+            }}
+            disabled={atStart}
+            className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+            title="Restart"
+          >
+            <RotateCcw className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => {
+              setPlaying(false);
+              setStepCount((n) => Math.max(0, n - 1));
+            }}
+            disabled={atStart}
+            className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+            title="Previous digit"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => {
+              if (atEnd) setStepCount(0);
+              setPlaying((p) => !p);
+            }}
+            className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg hover:shadow-xl transition-all"
+            title={playing ? "Pause" : "Play"}
+          >
+            {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => {
+              setPlaying(false);
+              setStepCount((n) => Math.min(steps.length, n + 1));
+            }}
+            disabled={atEnd}
+            className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition-all"
+            title="Next digit"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <span className="ml-auto font-mono text-sm text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg border border-indigo-100">
+            Digit {stepCount} / {steps.length}
+          </span>
+        </div>
+
+        <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100 text-sm text-gray-700 min-h-[3.5rem]">
+          {hoveredSymbol !== null ? (
+            <>
+              Symbol {hoveredSymbol + 1},{" "}
+              <span className="font-mono">
+                {displaySymbol(segments[hoveredSymbol].symbol, hexSymbols)}
+              </span>
+              , is coded as{" "}
+              <span className="font-mono text-amber-600">
+                {formatCodeword(segments[hoveredSymbol].code, digitSymbols)}
+              </span>
+              .
+            </>
+          ) : !step ? (
+            "The decoder starts at the root. Step through the stream one digit at a time."
+          ) : step.completed !== null ? (
+            <>
+              Digit{" "}
+              <span className="font-mono">{formatDigits([step.digit], digitSymbols)}</span>{" "}
+              reaches the leaf{" "}
+              <span className="font-mono font-semibold text-amber-600">
+                {displaySymbol(step.completed, hexSymbols)}
+              </span>
+              : output it and go back to the root for the next symbol.
+            </>
+          ) : (
+            <>
+              Digit{" "}
+              <span className="font-mono">{formatDigits([step.digit], digitSymbols)}</span>{" "}
+              follows branch {step.digit} to an internal node (weight {step.node.freq}); path
+              so far{" "}
+              <span className="font-mono text-amber-600">
+                {formatCodeword(step.path, digitSymbols)}
+              </span>
+              .
+            </>
+          )}
+        </div>
+
+        <div className="bg-white/60 rounded-xl border border-indigo-100">
+          <TreeVisualization
+            root={root}
+            digitSymbols={digitSymbols}
+            hexSymbols={hexSymbols}
+            highlightPath={highlightPath}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DecodeTrace;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { FileOutput } from "lucide-react";
+import {
+  ExportContext,
+  codebookToCsv,
+  codebookToJson,
+  summaryToLatex,
+  summaryToMarkdown,
+  treeToDot,
+  treeToSvg,
+} from "../lib/exporters";
+
+// Browsers refuse canvases much larger than this on a side
+const MAX_CANVAS_SIDE = 16384;
+const PNG_SCALE = 2;
+
+function svgToPng(svg: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(
+        PNG_SCALE,
+        MAX_CANVAS_SIDE / image.width,
+        MAX_CANVAS_SIDE / image.height
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.floor(image.width * scale);
+      canvas.height = Math.floor(image.height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("The tree is too large for a PNG"))
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the tree"));
+    };
+    image.src = url;
+  });
+}
+
+function ExportPanel({
+  context,
+  baseName,
+  onDownload,
+}: {
+  context: ExportContext;
+  baseName: string;
+  onDownload: (blob: Blob, fileName: string) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const name = `${baseName}-m${context.m}`;
+
+  const save = (content: string, type: string, extension: string) =>
+    onDownload(new Blob([content], { type }), `${name}.${extension}`);
+
+  const groups: {
+    title: string;
+    actions: { label: string; run: () => void | Promise<void> }[];
+  }[] = [
+    {
+      title: "Tree",
+      actions: [
+        { label: "SVG", run: () => save(treeToSvg(context), "image/svg+xml", "svg") },
+        {
+          label: "PNG",
+          run: async () => onDownload(await svgToPng(treeToSvg(context)), `${name}.png`),
+        },
+        { label: "Graphviz DOT", run: () => save(treeToDot(context), "text/vnd.graphviz", "dot") },
+      ],
+    },
+    {
+      title: "Codebook",
+      actions: [
+        { label: "CSV", run: () => save(codebookToCsv(context), "text/csv", "csv") },
+        { label: "JSON", run: () => save(codebookToJson(context), "application/json", "json") },
+      ],
+    },
+    {
+      title: "Summary table",
+      actions: [
+        { label: "LaTeX", run: () => save(summaryToLatex(context), "application/x-tex", "tex") },
+        { label: "Markdown", run: () => save(summaryToMarkdown(context), "text/markdown", "md") },
+      ],
+    },
+  ];
+
+  const run = async (action: () => void | Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export failed");
+    }
+  };
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <FileOutput className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Export</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Downloads use the current input, m = {context.m} and the codes shown
+        above.
+      </p>
+      <div className="space-y-3">
+        {groups.map((group) => (
+          <div key={group.title} className="flex flex-wrap items-center gap-2">
+            <span className="w-32 text-sm font-medium text-gray-700">{group.title}</span>
+            {group.actions.map((action) => (
+              <button
+                key={action.label}
+                onClick={() => run(action.run)}
+                disabled={!context.root}
+                className="py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-all text-sm font-semibold"
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+    </div>
+  );
+}
+
+export default ExportPanel;
@@ -0,0 +1,155 @@
+import { Sigma } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { CodeMetrics } from "../lib/metrics";
+import { displaySymbol } from "../lib/symbols";
+import { formatWeight } from "../lib/weightTable";
+
+function MetricCard({
+  label,
+  value,
+  unit,
+  hint,
+}: {
+  label: string;
+  value: string;
+  unit?: string;
+  hint: string;
+}) {
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100">
+      <p className="text-sm font-medium text-gray-600">{label}</p>
+      <p className="text-2xl font-bold text-indigo-600">
+        {value}
+        {unit && <span className="text-sm ml-1 text-indigo-400">{unit}</span>}
+      </p>
+      <p className="text-xs text-gray-500 mt-1">{hint}</p>
+    </div>
+  );
+}
+
+function MetricsPanel({
+  metrics,
+  hexSymbols,
+}: {
+  metrics: CodeMetrics;
+  hexSymbols: boolean;
+}) {
+  const { m } = metrics;
+
+  const symbolData = metrics.symbols
+    .slice()
+    .sort((a, b) => b.frequency - a.frequency)
+    .map((symbol) => ({
+      name: displaySymbol(symbol.symbol, hexSymbols),
+      "Code length": symbol.codeLength,
+      [`−log${m}(p)`]: Number(symbol.information.toFixed(3)),
+    }));
+
+  const summaryData = [
+    {
+      name: "digits / symbol",
+      [`Entropy H${m}`]: Number(metrics.entropy.toFixed(4)),
+      "Average length L": Number(metrics.averageLength.toFixed(4)),
+    },
+  ];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Sigma className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Information Theory
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <MetricCard
+          label={`Entropy (base ${m})`}
+          value={metrics.entropy.toFixed(4)}
+          unit="digits/sym"
+          hint={`${metrics.entropyBits.toFixed(4)} bits/symbol`}
+        />
+        <MetricCard
+          label="Average Length"
+          value={metrics.averageLength.toFixed(4)}
+          unit="digits/sym"
+          hint={`${(metrics.averageLength * metrics.bitsPerDigit).toFixed(4)} bits/symbol`}
+        />
+        <MetricCard
+          label="Efficiency"
+          value={(metrics.efficiency * 100).toFixed(2)}
+          unit="%"
+          hint={`Redundancy ${(metrics.redundancy * 100).toFixed(2)}%`}
+        />
+        <MetricCard
+          label="Kraft–McMillan Sum"
+          value={metrics.kraftSum.toFixed(4)}
+          hint={
+            metrics.kraftSum <= 1 + 1e-9
+              ? `Σ ${m}^−lᵢ ≤ 1: a prefix code exists`
+              : `Σ ${m}^−lᵢ > 1: not uniquely decodable`
+          }
+        />
+        <MetricCard
+          label="Total Digits"
+          value={formatWeight(metrics.totalDigits)}
+          unit="digits"
+          hint={`${formatWeight(metrics.totalSymbols)} symbols × L`}
+        />
+        <MetricCard
+          label="Equivalent Bits"
+          value={metrics.equivalentBits.toFixed(1)}
+          unit="bits"
+          hint={`1 digit = log2(${m}) = ${metrics.bitsPerDigit.toFixed(3)} bits`}
+        />
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-700 mb-2">
+        Codeword length vs. information content per symbol
+      </h3>
+      <div className="h-64 mb-8">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={symbolData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis dataKey="name" />
+            <YAxis allowDecimals />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="Code length" fill="#6366f1" />
+            <Bar dataKey={`−log${m}(p)`} fill="#c084fc" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-700 mb-2">
+        Entropy bound vs. achieved average length
+      </h3>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={summaryData} layout="vertical">
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis type="number" />
+            <YAxis type="category" dataKey="name" width={110} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey={`Entropy H${m}`} fill="#c084fc" />
+            <Bar dataKey="Average length L" fill="#6366f1" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default MetricsPanel;
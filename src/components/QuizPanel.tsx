@@ -0,0 +1,476 @@
+import { useMemo, useState } from "react";
+import {
+  CheckCircle2,
+  Eye,
+  GraduationCap,
+  Lightbulb,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { STANDARD_DIGITS, formatCodeword } from "../lib/alphabet";
+import { describeDummyArithmetic } from "../lib/construction";
+import {
+  Codeword,
+  HuffmanTreeNode,
+  calculateRequiredDummies,
+  generateCodes,
+  generateMaryTree,
+} from "../lib/huffman";
+import { formatTree, treeShape } from "../lib/optimalTrees";
+import {
+  CodewordCheck,
+  Exercise,
+  checkCodewords,
+  checkMerge,
+  generateExercise,
+  mergeNodes,
+  referenceMerge,
+  startForest,
+} from "../lib/quiz";
+import TreeVisualization from "./TreeVisualization";
+
+type Phase = "dummies" | "merge" | "codes" | "done";
+
+// Wrong answers on a step before its answer can be shown
+const ATTEMPTS_BEFORE_ANSWER = 2;
+
+interface LoggedStep {
+  label: string;
+  // Right on the first try, without a hint
+  earned: boolean;
+}
+
+function QuizPanel() {
+  const [exercise, setExercise] = useState<Exercise>(() => generateExercise());
+  const [phase, setPhase] = useState<Phase>("dummies");
+  const [dummyAnswer, setDummyAnswer] = useState("");
+  const [forest, setForest] = useState<HuffmanTreeNode[]>([]);
+  const [selected, setSelected] = useState<HuffmanTreeNode[]>([]);
+  const [codeAnswers, setCodeAnswers] = useState<Map<string, string>>(new Map());
+  const [codeChecks, setCodeChecks] = useState<CodewordCheck[] | null>(null);
+  const [log, setLog] = useState<LoggedStep[]>([]);
+  // Mistakes and hints on the current step
+  const [attempts, setAttempts] = useState(0);
+  const [hintShown, setHintShown] = useState(false);
+  const [feedback, setFeedback] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const { frequencies, m } = exercise;
+  const symbolCount = frequencies.size;
+  const dummies = calculateRequiredDummies(symbolCount, m);
+  const mergeCount = (symbolCount + dummies - 1) / (m - 1);
+  const possible = 1 + mergeCount + symbolCount;
+  const score = log.filter((step) => step.earned).length;
+
+  const reference = useMemo(() => {
+    const root = generateMaryTree(frequencies, m);
+    const codes = new Map<string, Codeword>();
+    generateCodes(root, [], codes);
+    return { root, codes, shape: treeShape(root, frequencies) };
+  }, [frequencies, m]);
+  const learnerRoot = forest.length === 1 ? forest[0] : null;
+  // Branch digits stay hidden while the learner assigns them
+  const hiddenDigits = useMemo(() => Array<string>(m).fill("?"), [m]);
+
+  const finishStep = (label: string, earned: boolean) => {
+    setLog((steps) => [...steps, { label, earned }]);
+    setAttempts(0);
+    setHintShown(false);
+  };
+
+  const reset = (next: Exercise) => {
+    setExercise(next);
+    setPhase("dummies");
+    setDummyAnswer("");
+    setForest([]);
+    setSelected([]);
+    setCodeAnswers(new Map());
+    setCodeChecks(null);
+    setLog([]);
+    setAttempts(0);
+    setHintShown(false);
+    setFeedback(null);
+  };
+
+  const acceptDummies = (earned: boolean) => {
+    finishStep(`Dummy nodes: ${dummies}`, earned);
+    setForest(startForest(exercise, dummies));
+    setPhase("merge");
+  };
+
+  const checkDummies = () => {
+    if (Number(dummyAnswer) === dummies && dummyAnswer.trim() !== "") {
+      setFeedback({ ok: true, text: describeDummyArithmetic(symbolCount, m) });
+      acceptDummies(attempts === 0 && !hintShown);
+    } else {
+      setAttempts((n) => n + 1);
+      setFeedback({
+        ok: false,
+        text: `${dummyAnswer.trim() || "No answer"} is not right. Try again, or ask for a hint.`,
+      });
+    }
+  };
+
+  const applyMerge = (nodes: HuffmanTreeNode[], earned: boolean) => {
+    const next = mergeNodes(forest, nodes);
+    const parent = next[next.length - 1];
+    finishStep(`Merge ${formatTree(parent)} → ${parent.freq}`, earned);
+    setForest(next);
+    setSelected([]);
+    if (next.length === 1) setPhase("codes");
+  };
+
+  const tryMerge = () => {
+    const problem = checkMerge(forest, selected, m);
+    if (problem === null) {
+      const weight = selected.reduce((sum, node) => sum + node.freq, 0);
+      setFeedback({ ok: true, text: `Merged into a node of weight ${weight}.` });
+      applyMerge(selected, attempts === 0 && !hintShown);
+    } else {
+      setAttempts((n) => n + 1);
+      setFeedback({ ok: false, text: problem });
+    }
+  };
+
+  const checkCodes = () => {
+    if (!learnerRoot) return;
+    const checks = checkCodewords(learnerRoot, codeAnswers, m);
+    // Codewords only score on the first check
+    if (codeChecks === null) {
+      for (const check of checks) finishStep(`Codeword for "${check.symbol}"`, check.correct);
+    }
+    setCodeChecks(checks);
+    setFeedback(
+      checks.every((check) => check.correct)
+        ? { ok: true, text: "Every codeword fits your tree." }
+        : { ok: false, text: "Some codewords do not fit your tree yet; see below." }
+    );
+  };
+
+  const hint =
+    phase === "dummies"
+      ? `Each merge turns ${m} nodes into one, removing ${m - 1}. To end with a single root, the number of leaves minus 1 (dummies included) must be a multiple of ${m - 1}; add as few dummies as that takes.`
+      : phase === "merge"
+        ? `Find the ${Math.min(m, forest.length)} smallest weights in the list. Dummies weigh 0; ties can be broken any way.`
+        : `Give the ${m} branches of each node different digits from 0 to ${m - 1}; a codeword is the digits on the path from the root.`;
+
+  const nodeLabel = (node: HuffmanTreeNode) =>
+    node.children.length > 0 ? formatTree(node) : node.isDummy ? "∅" : node.data;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <GraduationCap className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Practice</h2>
+        <span className="ml-auto font-mono text-sm text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg border border-indigo-100">
+          Score {score} / {possible}
+        </span>
+        <button
+          onClick={() => reset(generateExercise())}
+          className="flex items-center gap-2 text-sm px-4 py-2 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+        >
+          <RefreshCw className="w-4 h-4" />
+          New exercise
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Build the {m}-ary Huffman tree for these weights by hand: add dummy
+        nodes, merge nodes {m} at a time, then read off the codewords. Any tie
+        is fine, as long as each merge takes the smallest weights.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {Array.from(frequencies, ([symbol, weight]) => (
+          <span
+            key={symbol}
+            className="font-mono text-sm bg-gradient-to-br from-indigo-50 to-purple-50 px-3 py-1 rounded-lg border border-indigo-100"
+          >
+            {symbol}: <span className="font-semibold text-indigo-600">{weight}</span>
+          </span>
+        ))}
+        <span className="font-mono text-sm px-3 py-1 rounded-lg bg-purple-100 text-purple-700">
+          m = {m}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {phase === "dummies" && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-gray-700">
+              How many dummy nodes of weight 0 are needed?
+            </span>
+            <input
+              type="number"
+              min={0}
+              value={dummyAnswer}
+              onChange={(e) => setDummyAnswer(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") checkDummies();
+              }}
+              className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner"
+            />
+            <button
+              onClick={checkDummies}
+              className="py-2 px-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold shadow-lg hover:shadow-xl transition-all"
+            >
+              Check
+            </button>
+            {attempts >= ATTEMPTS_BEFORE_ANSWER && (
+              <button
+                onClick={() => {
+                  setFeedback({ ok: true, text: describeDummyArithmetic(symbolCount, m) });
+                  acceptDummies(false);
+                }}
+                className="text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all"
+              >
+                Show answer
+              </button>
+            )}
+          </div>
+        )}
+
+        {phase === "merge" && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">
+              Merge {mergeCount - (forest.length - 1) / (m - 1) + 1} of {mergeCount}: select the{" "}
+              {Math.min(m, forest.length)} nodes to merge next.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {forest.map((node, index) => (
+                <button
+                  key={index}
+                  onClick={() =>
+                    setSelected((nodes) =>
+                      nodes.includes(node)
+                        ? nodes.filter((other) => other !== node)
+                        : [...nodes, node]
+                    )
+                  }
+                  className={`px-3 py-2 rounded-xl border font-mono text-sm transition-all ${
+                    selected.includes(node)
+                      ? "bg-amber-100 border-amber-400 text-amber-700"
+                      : node.isDummy
+                        ? "bg-gray-50 border-gray-300 text-gray-500 hover:bg-gray-100"
+                        : "bg-white border-indigo-100 text-gray-700 hover:bg-indigo-50"
+                  }`}
+                >
+                  {nodeLabel(node)}{" "}
+                  <span className="font-semibold text-indigo-600">{node.freq}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={tryMerge}
+                disabled={selected.length === 0}
+                className="py-2 px-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold shadow-lg hover:shadow-xl disabled:opacity-50 transition-all"
+              >
+                Merge selected
+              </button>
+              {attempts >= ATTEMPTS_BEFORE_ANSWER && (
+                <button
+                  onClick={() => {
+                    const nodes = referenceMerge(forest, m);
+                    setFeedback({
+                      ok: true,
+                      text: `The smallest weights were ${nodes.map((node) => node.freq).join(", ")}.`,
+                    });
+                    applyMerge(nodes, false);
+                  }}
+                  className="text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all"
+                >
+                  Show me
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === "codes" && learnerRoot && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">
+              Your tree is complete. Label the branches of each node with
+              different digits and enter the codeword of every symbol.
+            </p>
+            <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 shadow-inner">
+              <TreeVisualization root={learnerRoot} digitSymbols={hiddenDigits} hexSymbols={false} />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {Array.from(frequencies.keys(), (symbol) => {
+                const check = codeChecks?.find((result) => result.symbol === symbol);
+                return (
+                  <label key={symbol} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono w-6 text-right">{symbol}</span>
+                    <input
+                      type="text"
+                      value={codeAnswers.get(symbol) ?? ""}
+                      onChange={(e) =>
+                        setCodeAnswers((answers) => new Map(answers).set(symbol, e.target.value))
+                      }
+                      className={`w-24 p-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono shadow-inner ${
+                        check ? (check.correct ? "border-green-400" : "border-red-400") : "border-gray-300"
+                      }`}
+                    />
+                    {check &&
+                      (check.correct ? (
+                        <CheckCircle2 className="w-4 h-4 text-green-600" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-500" />
+                      ))}
+                  </label>
+                );
+              })}
+            </div>
+            {codeChecks && (
+              <ul className="text-xs text-red-600 space-y-1">
+                {codeChecks
+                  .filter((check) => check.problem)
+                  .map((check) => (
+                    <li key={check.symbol}>
+                      "{check.symbol}": {check.problem}
+                    </li>
+                  ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={checkCodes}
+                className="py-2 px-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold shadow-lg hover:shadow-xl transition-all"
+              >
+                Check codewords
+              </button>
+              {codeChecks && (
+                <button
+                  onClick={() => {
+                    setFeedback(null);
+                    setPhase("done");
+                  }}
+                  className="py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all font-semibold"
+                >
+                  Finish
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {feedback && (
+          <div
+            className={`p-4 rounded-xl border text-sm ${
+              feedback.ok
+                ? "bg-green-50 border-green-200 text-green-700"
+                : "bg-red-50 border-red-200 text-red-700"
+            }`}
+          >
+            {feedback.text}
+          </div>
+        )}
+
+        {phase !== "done" && (
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => setHintShown(true)}
+              disabled={hintShown}
+              className="flex items-center gap-1 text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-40 transition-all"
+            >
+              <Lightbulb className="w-3 h-3" />
+              Hint
+            </button>
+            <button
+              onClick={() => {
+                setFeedback(null);
+                setPhase("done");
+              }}
+              className="flex items-center gap-1 text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all"
+            >
+              <Eye className="w-3 h-3" />
+              Give up and reveal
+            </button>
+          </div>
+        )}
+        {hintShown && phase !== "done" && (
+          <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-700 p-4 rounded-xl text-sm">
+            <Lightbulb className="w-5 h-5 mt-0.5 shrink-0" />
+            <p>{hint}</p>
+          </div>
+        )}
+
+        {log.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+              Steps
+            </p>
+            <ol className="space-y-1 text-sm font-mono">
+              {log.map((step, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  {step.earned ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-500 shrink-0" />
+                  )}
+                  <span className="text-gray-700 break-all">{step.label}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {phase === "done" && (
+          <div className="space-y-4">
+            <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100 text-sm text-gray-700">
+              You scored{" "}
+              <span className="font-semibold text-indigo-600">
+                {score} / {possible}
+              </span>
+              : one point per step done right the first time without a hint.
+              {learnerRoot &&
+                ` Your tree averages ${treeShape(learnerRoot, frequencies).averageLength.toFixed(4)} digits per symbol; the optimum is ${reference.shape.averageLength.toFixed(4)}.`}
+            </div>
+            <p className="text-sm text-gray-600">{describeDummyArithmetic(symbolCount, m)}</p>
+            <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 shadow-inner">
+              <TreeVisualization
+                root={reference.root}
+                digitSymbols={STANDARD_DIGITS}
+                hexSymbols={false}
+              />
+            </div>
+            <div className="overflow-x-auto rounded-xl border border-indigo-100">
+              <table className="w-full text-sm font-mono">
+                <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Symbol</th>
+                    <th className="px-4 py-2 text-right">Weight</th>
+                    <th className="px-4 py-2 text-left">Reference</th>
+                    <th className="px-4 py-2 text-left">Yours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from(frequencies, ([symbol, weight]) => (
+                    <tr key={symbol} className="border-t border-indigo-50 bg-white">
+                      <td className="px-4 py-2">{symbol}</td>
+                      <td className="px-4 py-2 text-right">{weight}</td>
+                      <td className="px-4 py-2 text-indigo-600">
+                        {formatCodeword(reference.codes.get(symbol), STANDARD_DIGITS)}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">
+                        {codeAnswers.get(symbol) || "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500">
+              The reference breaks ties by symbol, so your tree and codewords
+              may differ from it and still be optimal.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default QuizPanel;
@@ -0,0 +1,180 @@
+import { formatCodeword, resolveAlphabet } from "../lib/alphabet";
+import { SavedRun } from "../lib/runHistory";
+import { displaySymbol } from "../lib/symbols";
+import { formatWeight } from "../lib/weightTable";
+
+// Codeword rows shown; the rest are summarised
+const MAX_ROWS = 200;
+
+function digitsFor(run: SavedRun): string[] {
+  return resolveAlphabet(run.config.alphabetId, run.config.customAlphabet, run.config.m)
+    .symbols;
+}
+
+function RunComparison({ runs }: { runs: [SavedRun, SavedRun] }) {
+  const [a, b] = runs;
+  const stats: { label: string; values: [string, string] }[] = [
+    { label: "m", values: [String(a.config.m), String(b.config.m)] },
+    { label: "Code", values: [a.config.codeMode, b.config.codeMode] },
+    {
+      label: "Max length",
+      values: [String(a.config.maxLength ?? "—"), String(b.config.maxLength ?? "—")],
+    },
+    { label: "Tie-breaking", values: [a.config.tieBreak, b.config.tieBreak] },
+  ];
+  const numbers: {
+    label: string;
+    pick: (run: SavedRun) => number | null;
+    digits: number;
+    // Which direction is better, where either is
+    better?: "higher" | "lower";
+  }[] = [
+    { label: "Distinct symbols", pick: (run) => run.snapshot.distinctSymbols, digits: 0 },
+    { label: "Entropy (digits)", pick: (run) => run.snapshot.entropy, digits: 4 },
+    {
+      label: "Avg length",
+      pick: (run) => run.snapshot.averageLength,
+      digits: 4,
+      better: "lower",
+    },
+    {
+      label: "Efficiency (%)",
+      pick: (run) => run.snapshot.efficiency * 100,
+      digits: 2,
+      better: "higher",
+    },
+    {
+      label: "Total digits",
+      pick: (run) => run.snapshot.totalDigits,
+      digits: 0,
+      better: "lower",
+    },
+    {
+      label: "Equiv. bits",
+      pick: (run) => run.snapshot.equivalentBits,
+      digits: 1,
+      better: "lower",
+    },
+    {
+      label: "Compression (%)",
+      pick: (run) => run.snapshot.compressionRatio,
+      digits: 2,
+      better: "higher",
+    },
+  ];
+
+  const [codesA, codesB] = runs.map(
+    (run) => new Map(run.snapshot.codes.map(([symbol, weight, code]) => [symbol, { weight, code }]))
+  );
+  // Symbols of both runs, the first run's order first
+  const symbols = Array.from(new Set([...codesA.keys(), ...codesB.keys()]));
+  const digitsA = digitsFor(a);
+  const digitsB = digitsFor(b);
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto rounded-xl border border-indigo-100">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 text-left" />
+              <th className="px-4 py-2 text-right">{a.name}</th>
+              <th className="px-4 py-2 text-right">{b.name}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((row) => (
+              <tr key={row.label} className="border-t border-indigo-50 bg-white">
+                <td className="px-4 py-2 text-gray-600">{row.label}</td>
+                {row.values.map((value, i) => (
+                  <td
+                    key={i}
+                    className={`px-4 py-2 text-right ${
+                      row.values[0] !== row.values[1] ? "text-indigo-600 font-semibold" : ""
+                    }`}
+                  >
+                    {value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {numbers.map((row) => {
+              const values = runs.map(row.pick);
+              const [left, right] = values;
+              const best =
+                !row.better || left === null || right === null || left === right
+                  ? null
+                  : (left > right) === (row.better === "higher")
+                    ? 0
+                    : 1;
+              return (
+                <tr key={row.label} className="border-t border-indigo-50 bg-white">
+                  <td className="px-4 py-2 text-gray-600">{row.label}</td>
+                  {values.map((value, i) => (
+                    <td
+                      key={i}
+                      className={`px-4 py-2 text-right ${
+                        best === i ? "bg-amber-50 font-semibold" : ""
+                      }`}
+                    >
+                      {value === null ? "—" : value.toFixed(row.digits)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto rounded-xl border border-indigo-100">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left">Symbol</th>
+              <th className="px-4 py-2 text-right">Weight</th>
+              <th className="px-4 py-2 text-left">{a.name}</th>
+              <th className="px-4 py-2 text-right">Weight</th>
+              <th className="px-4 py-2 text-left">{b.name}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {symbols.slice(0, MAX_ROWS).map((symbol) => {
+              const left = codesA.get(symbol);
+              const right = codesB.get(symbol);
+              const changed = left?.code.length !== right?.code.length;
+              return (
+                <tr
+                  key={symbol}
+                  className={`border-t border-indigo-50 ${changed ? "bg-amber-50" : "bg-white"}`}
+                >
+                  <td className="px-4 py-2">{displaySymbol(symbol, false)}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">
+                    {left ? formatWeight(left.weight) : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-indigo-600 break-all">
+                    {formatCodeword(left?.code, digitsA)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-500">
+                    {right ? formatWeight(right.weight) : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-indigo-600 break-all">
+                    {formatCodeword(right?.code, digitsB)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Rows whose codeword length differs are highlighted.
+        {symbols.length > MAX_ROWS && ` The first ${MAX_ROWS} of ${symbols.length} symbols are listed.`}
+        {(a.snapshot.truncated || b.snapshot.truncated) &&
+          " Only the most frequent symbols of large runs were saved."}
+      </p>
+    </div>
+  );
+}
+
+export default RunComparison;
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { AlertTriangle, Check, History, Link2, RotateCcw, Save, Trash2 } from "lucide-react";
+import {
+  RunSnapshot,
+  SavedRun,
+  loadRuns,
+  storeRuns,
+} from "../lib/runHistory";
+import { SessionConfig, SessionError } from "../lib/session";
+import RunComparison from "./RunComparison";
+
+// Short description of a run's input for the list
+function describeInput(config: SessionConfig): string {
+  if (config.inputMode === "table") return `${config.rows.length} weights`;
+  const head = Array.from(config.text).slice(0, 32).join("");
+  return JSON.stringify(head + (head.length < config.text.length ? "…" : ""));
+}
+
+function SessionPanel({
+  config,
+  shareProblem,
+  saveProblem,
+  takeSnapshot,
+  onRestore,
+}: {
+  config: SessionConfig;
+  // Why the address bar does not hold the current setup, if it does not
+  shareProblem: string | null;
+  // Why the current run cannot be saved, if it cannot
+  saveProblem: string | null;
+  takeSnapshot: () => RunSnapshot;
+  onRestore: (config: SessionConfig) => void;
+}) {
+  const [runs, setRuns] = useState(() => loadRuns(localStorage));
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: SavedRun[]) => {
+    try {
+      storeRuns(localStorage, next);
+      setRuns(next);
+      setError(null);
+    } catch (error) {
+      if (!(error instanceof SessionError)) throw error;
+      setError(error.message);
+    }
+  };
+
+  const save = () => {
+    update([
+      {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name: name.trim() || `Run ${runs.length + 1}`,
+        savedAt: Date.now(),
+        config,
+        snapshot: takeSnapshot(),
+      },
+      ...runs,
+    ]);
+    setName("");
+  };
+
+  const remove = (id: string) => {
+    update(runs.filter((run) => run.id !== id));
+    setSelected((ids) => ids.filter((other) => other !== id));
+  };
+
+  // Keeps the two most recently ticked runs
+  const toggle = (id: string) =>
+    setSelected((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id].slice(-2)
+    );
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError("Could not copy; copy the address bar instead");
+    }
+  };
+
+  const compared = selected
+    .map((id) => runs.find((run) => run.id === id))
+    .filter((run): run is SavedRun => run !== undefined);
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <History className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Saved Runs</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            The address bar always holds the current input and options, so a
+            link opens exactly the same tree.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={copyLink}
+              disabled={shareProblem !== null}
+              className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold shadow-lg hover:shadow-xl disabled:opacity-50 transition-all"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+              {copied ? "Copied" : "Copy link"}
+            </button>
+            {shareProblem && <span className="text-sm text-amber-600">{shareProblem}</span>}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && saveProblem === null) save();
+            }}
+            placeholder={`Run ${runs.length + 1}`}
+            className="flex-1 min-w-[12rem] p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 shadow-inner"
+          />
+          <button
+            onClick={save}
+            disabled={saveProblem !== null}
+            className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-all text-sm font-semibold"
+          >
+            <Save className="w-4 h-4" />
+            Save current run
+          </button>
+          {saveProblem && <span className="text-sm text-amber-600">{saveProblem}</span>}
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 p-4 rounded-xl">
+            <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No saved runs yet. Runs are kept in this browser only.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-indigo-100">
+            <table className="w-full text-sm">
+              <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-2" title="Tick two runs to compare them" />
+                  <th className="px-4 py-2 text-left">Name</th>
+                  <th className="px-4 py-2 text-left">Saved</th>
+                  <th className="px-4 py-2 text-left">Input</th>
+                  <th className="px-4 py-2 text-right">m</th>
+                  <th className="px-4 py-2 text-right">Avg len</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr
+                    key={run.id}
+                    className={`border-t border-indigo-50 ${
+                      selected.includes(run.id) ? "bg-indigo-50" : "bg-white"
+                    }`}
+                  >
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(run.id)}
+                        onChange={() => toggle(run.id)}
+                        className="accent-indigo-600"
+                      />
+                    </td>
+                    <td className="px-4 py-2 font-semibold text-indigo-600">{run.name}</td>
+                    <td className="px-4 py-2 text-gray-500">
+                      {new Date(run.savedAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-gray-700 break-all">
+                      {describeInput(run.config)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">{run.config.m}</td>
+                    <td className="px-4 py-2 text-right font-mono">
+                      {run.snapshot.averageLength.toFixed(4)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => onRestore(run.config)}
+                          className="flex items-center gap-1 text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition-all"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => remove(run.id)}
+                          className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-all"
+                          title="Delete run"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {compared.length === 2 ? (
+          <RunComparison runs={[compared[0], compared[1]]} />
+        ) : (
+          runs.length >= 2 && (
+            <p className="text-sm text-gray-500">Tick two runs to compare them side by side.</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SessionPanel;
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { Scissors } from "lucide-react";
+import { compareSymbolModels } from "../lib/comparison";
+import { SYMBOL_MODELS, SymbolModel } from "../lib/symbolModels";
+
+function SymbolModelComparison({
+  text,
+  m,
+  currentModel,
+  onSelectModel,
+}: {
+  text: string;
+  m: number;
+  currentModel: SymbolModel;
+  onSelectModel: (model: SymbolModel) => void;
+}) {
+  const results = useMemo(() => compareSymbolModels(text, m), [text, m]);
+  if (results.length === 0) return null;
+
+  let best = results[0];
+  for (const result of results) {
+    if (result.totalBits < best.totalBits - 1e-9) best = result;
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Scissors className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Symbol Model Comparison
+        </h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Larger alphabets need fewer digits but a bigger codebook. The total
+        counts both at m = {m}; the cheapest model is highlighted.
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-indigo-100">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 text-left">Model</th>
+              <th className="px-4 py-2 text-right">Symbols</th>
+              <th className="px-4 py-2 text-right">Distinct</th>
+              <th className="px-4 py-2 text-right">Data bits</th>
+              <th className="px-4 py-2 text-right">Codebook bits</th>
+              <th className="px-4 py-2 text-right">Total bits</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result) => (
+              <tr
+                key={result.model}
+                className={`border-t border-indigo-50 ${
+                  result.model === best.model ? "bg-amber-50" : "bg-white"
+                }`}
+              >
+                <td className="px-4 py-2 font-semibold text-indigo-600">
+                  {SYMBOL_MODELS.find((model) => model.id === result.model)!.name}
+                </td>
+                <td className="px-4 py-2 text-right">{result.metrics.totalSymbols}</td>
+                <td className="px-4 py-2 text-right">
+                  {result.metrics.distinctSymbols}
+                </td>
+                <td className="px-4 py-2 text-right">{result.dataBits.toFixed(1)}</td>
+                <td className="px-4 py-2 text-right">{result.codebookBits}</td>
+                <td className="px-4 py-2 text-right">{result.totalBits.toFixed(1)}</td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => onSelectModel(result.model)}
+                    disabled={result.model === currentModel}
+                    className="text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-40 transition-all"
+                  >
+                    {result.model === currentModel ? "Current" : "Use"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default SymbolModelComparison;
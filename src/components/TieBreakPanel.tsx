@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Shuffle } from "lucide-react";
+import {
+  MAX_ENUMERATION_SYMBOLS,
+  compareTieBreaks,
+  enumerateOptimalTrees,
+  formatTree,
+} from "../lib/optimalTrees";
+import { TIE_BREAKS, TieBreak } from "../lib/priorityQueue";
+import TreeVisualization from "./TreeVisualization";
+
+// Only the start of a long list of trees is shown
+const MAX_LISTED_TREES = 50;
+
+function TieBreakPanel({
+  frequencies,
+  m,
+  currentTieBreak,
+  onSelectTieBreak,
+  digitSymbols,
+  hexSymbols,
+}: {
+  frequencies: Map<string, number>;
+  m: number;
+  currentTieBreak: TieBreak;
+  onSelectTieBreak: (tieBreak: TieBreak) => void;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}) {
+  const [listing, setListing] = useState(false);
+  const [selected, setSelected] = useState(0);
+
+  const results = useMemo(() => compareTieBreaks(frequencies, m), [frequencies, m]);
+  const small = frequencies.size <= MAX_ENUMERATION_SYMBOLS;
+  const enumeration = useMemo(
+    () => (listing && small ? enumerateOptimalTrees(frequencies, m) : null),
+    [listing, small, frequencies, m]
+  );
+  if (results.length === 0) return null;
+
+  let lowest = results[0];
+  for (const result of results) {
+    if (result.shape.variance < lowest.shape.variance - 1e-9) lowest = result;
+  }
+  const trees = enumeration?.trees ?? [];
+  const shown = trees[Math.min(selected, trees.length - 1)];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-indigo-100 hover:shadow-2xl transition-shadow">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg shadow-sm">
+          <Shuffle className="w-6 h-6 text-indigo-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800">Tie-Breaking</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        When frequencies tie, the order of the queue decides which optimal tree
+        is built. The average length is always the same; the spread of codeword
+        lengths is not. The lowest variance is highlighted.
+      </p>
+
+      <div className="overflow-x-auto rounded-xl border border-indigo-100 mb-6">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 text-left">Policy</th>
+              <th className="px-4 py-2 text-right">Avg len</th>
+              <th className="px-4 py-2 text-right">Variance</th>
+              <th className="px-4 py-2 text-right">Max len</th>
+              <th className="px-4 py-2 text-right">Height</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result) => (
+              <tr
+                key={result.tieBreak}
+                className={`border-t border-indigo-50 ${
+                  result.shape.variance <= lowest.shape.variance + 1e-9
+                    ? "bg-amber-50"
+                    : "bg-white"
+                }`}
+              >
+                <td className="px-4 py-2 font-semibold text-indigo-600">
+                  {TIE_BREAKS.find((policy) => policy.id === result.tieBreak)!.name}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {result.shape.averageLength.toFixed(4)}
+                </td>
+                <td className="px-4 py-2 text-right">{result.shape.variance.toFixed(4)}</td>
+                <td className="px-4 py-2 text-right">{result.shape.maxLength}</td>
+                <td className="px-4 py-2 text-right">{result.shape.height}</td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => onSelectTieBreak(result.tieBreak)}
+                    disabled={result.tieBreak === currentTieBreak}
+                    className="text-xs px-3 py-1 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-40 transition-all"
+                  >
+                    {result.tieBreak === currentTieBreak ? "Current" : "Use"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <h3 className="text-sm font-medium text-gray-700">All optimal trees</h3>
+        {small ? (
+          <button
+            onClick={() => setListing((on) => !on)}
+            className="text-sm px-4 py-2 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+          >
+            {listing ? "Hide" : "List them"}
+          </button>
+        ) : (
+          <span className="text-sm text-gray-500">
+            Only for inputs with at most {MAX_ENUMERATION_SYMBOLS} distinct symbols.
+          </span>
+        )}
+      </div>
+
+      {enumeration && shown && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {enumeration.complete ? "" : "At least "}
+            <span className="font-semibold text-indigo-600">{trees.length}</span>{" "}
+            distinct tree{trees.length === 1 ? "" : "s"} can come out of m-ary
+            Huffman when every tie is resolved each possible way (trees that only
+            differ in the order of children count once).
+            {trees.length > MAX_LISTED_TREES && ` The first ${MAX_LISTED_TREES} are listed.`}
+          </p>
+          <div className="max-h-60 overflow-y-auto rounded-xl border border-indigo-100">
+            <table className="w-full text-sm font-mono">
+              <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-right">#</th>
+                  <th className="px-4 py-2 text-left">Tree</th>
+                  <th className="px-4 py-2 text-right">Variance</th>
+                  <th className="px-4 py-2 text-right">Max len</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trees.slice(0, MAX_LISTED_TREES).map((tree, index) => (
+                  <tr
+                    key={index}
+                    onClick={() => setSelected(index)}
+                    className={`border-t border-indigo-50 cursor-pointer ${
+                      tree === shown ? "bg-indigo-50" : "bg-white hover:bg-gray-50"
+                    }`}
+                  >
+                    <td className="px-4 py-2 text-right text-gray-500">{index + 1}</td>
+                    <td className="px-4 py-2 text-gray-700 break-all">
+                      {formatTree(tree.root, hexSymbols)}
+                    </td>
+                    <td className="px-4 py-2 text-right">{tree.shape.variance.toFixed(4)}</td>
+                    <td className="px-4 py-2 text-right">{tree.shape.maxLength}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-xl border border-indigo-100 shadow-inner">
+            <TreeVisualization
+              root={shown.root}
+              digitSymbols={digitSymbols}
+              hexSymbols={hexSymbols}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TieBreakPanel;
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Maximize2, UnfoldVertical, ZoomIn, ZoomOut } from "lucide-react";
+import { formatCodeword } from "../lib/alphabet";
+import { Codeword, HuffmanTreeNode } from "../lib/huffman";
+import { displaySymbol } from "../lib/symbols";
+import { formatWeight } from "../lib/weightTable";
+import {
+  LayoutNode,
+  MARGIN,
+  NODE_SIZE,
+  X_UNIT,
+  Y_UNIT,
+  layoutTree,
+} from "../lib/treeLayout";
+
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 4;
+// Pointer travel (px) after which a press is a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Zoom by `factor` keeping the point (px, py) of the viewport still
+function zoomAt(view: View, px: number, py: number, factor: number): View {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+  const ratio = scale / view.scale;
+  return {
+    x: px - (px - view.x) * ratio,
+    y: py - (py - view.y) * ratio,
+    scale,
+  };
+}
+
+function nodeLabel(node: HuffmanTreeNode, hexSymbols: boolean): string {
+  if (node.children.length > 0) return formatWeight(node.freq);
+  const label = displaySymbol(node.data, hexSymbols);
+  return label.length > 4 ? `${label.slice(0, 3)}…` : label;
+}
+
+function TreeVisualization({ root, digitSymbols, hexSymbols, highlightPath }: {
+  root: HuffmanTreeNode | null;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+  // Branches to highlight from the root, e.g. a decoder's progress
+  highlightPath?: Codeword;
+}) {
+  const [collapsed, setCollapsed] = useState<Set<HuffmanTreeNode>>(new Set());
+  const [hovered, setHovered] = useState<LayoutNode | null>(null);
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const travel = useRef(0);
+  const fittedRoot = useRef<HuffmanTreeNode | null>(null);
+
+  const layout = useMemo(() => layoutTree(root, collapsed), [root, collapsed]);
+  const width = (layout.maxX - layout.minX) * X_UNIT + 2 * MARGIN;
+  const height = layout.depth * Y_UNIT + 2 * MARGIN;
+  const px = (node: LayoutNode) => (node.x - layout.minX) * X_UNIT + MARGIN;
+  const py = (node: LayoutNode) => node.y * Y_UNIT + MARGIN;
+
+  const fit = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { clientWidth, clientHeight } = container;
+    const scale = Math.min(clientWidth / width, clientHeight / height, 1);
+    setView({
+      x: (clientWidth - width * scale) / 2,
+      y: (clientHeight - height * scale) / 2,
+      scale,
+    });
+  }, [width, height]);
+
+  // A new tree starts expanded and fitted; collapsing keeps the view
+  useEffect(() => {
+    if (fittedRoot.current === root) return;
+    fittedRoot.current = root;
+    setCollapsed(new Set());
+    setHovered(null);
+    fit();
+  }, [root, fit]);
+
+  // React's wheel listener is passive, so it cannot stop the page scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY * 0.0015);
+      setView((v) =>
+        zoomAt(v, event.clientX - rect.left, event.clientY - rect.top, factor)
+      );
+    };
+    container.addEventListener("wheel", onWheel, { passive: false });
+    return () => container.removeEventListener("wheel", onWheel);
+  }, [root]);
+
+  const onPointerDown = (event: React.PointerEvent) => {
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.current.size === 1) travel.current = 0;
+  };
+
+  const onPointerMove = (event: React.PointerEvent) => {
+    const active = pointers.current;
+    const previous = active.get(event.pointerId);
+    if (!previous) return;
+    const current = { x: event.clientX, y: event.clientY };
+
+    if (active.size === 1) {
+      const dx = current.x - previous.x;
+      const dy = current.y - previous.y;
+      travel.current += Math.abs(dx) + Math.abs(dy);
+      // Capture only once it is a drag, so that clicks still reach nodes
+      if (travel.current > DRAG_THRESHOLD) {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+      }
+    } else if (active.size === 2) {
+      // Pinch: zoom by the change in finger distance around their midpoint
+      const [other] = [...active].filter(([id]) => id !== event.pointerId);
+      const [, fixed] = other;
+      const before = Math.hypot(previous.x - fixed.x, previous.y - fixed.y);
+      const after = Math.hypot(current.x - fixed.x, current.y - fixed.y);
+      const rect = event.currentTarget.getBoundingClientRect();
+      travel.current += DRAG_THRESHOLD + 1;
+      if (before > 0) {
+        setView((v) =>
+          zoomAt(
+            v,
+            (current.x + fixed.x) / 2 - rect.left,
+            (current.y + fixed.y) / 2 - rect.top,
+            after / before
+          )
+        );
+      }
+    }
+    active.set(event.pointerId, current);
+  };
+
+  const onPointerUp = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+  };
+
+  const zoomCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    setView((v) =>
+      zoomAt(v, container.clientWidth / 2, container.clientHeight / 2, factor)
+    );
+  };
+
+  const toggle = (node: HuffmanTreeNode) => {
+    if (travel.current > DRAG_THRESHOLD || node.children.length === 0) return;
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (!next.delete(node)) next.add(node);
+      return next;
+    });
+  };
+
+  if (!root) return null;
+
+  // Nodes on the root-to-leaf path of the hovered leaf, or else on the
+  // path given by the parent
+  const onPath = new Set<LayoutNode>();
+  for (let node = hovered; node; node = node.parent) onPath.add(node);
+  if (!hovered && highlightPath) {
+    for (const node of layout.nodes) {
+      if (
+        node.path.length <= highlightPath.length &&
+        node.path.every((digit, i) => digit === highlightPath[i])
+      ) {
+        onPath.add(node);
+      }
+    }
+  }
+  const showCode = hovered && !hovered.node.isDummy;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-[600px] overflow-hidden rounded-xl touch-none select-none cursor-grab active:cursor-grabbing"
+    >
+      <svg
+        width="100%"
+        height="100%"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {layout.nodes.map((node) => {
+            if (!node.parent) return null;
+            const x1 = px(node.parent);
+            const y1 = py(node.parent);
+            const x2 = px(node);
+            const y2 = py(node);
+            const highlighted = onPath.has(node);
+            return (
+              <g key={`edge-${node.path.join(",")}`}>
+                <line
+                  x1={x1}
+                  y1={y1 + NODE_SIZE / 2}
+                  x2={x2}
+                  y2={y2 - NODE_SIZE / 2}
+                  stroke={highlighted ? "#f59e0b" : "#818cf8"}
+                  strokeWidth={highlighted ? 5 : 3}
+                  className={highlighted ? "" : "opacity-70"}
+                />
+                <text
+                  x={(x1 + x2) / 2}
+                  y={(y1 + y2) / 2}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className={`text-xl font-mono font-semibold ${
+                    highlighted ? "fill-amber-600" : "fill-gray-500"
+                  }`}
+                  stroke="white"
+                  strokeWidth="6"
+                  paintOrder="stroke"
+                >
+                  {digitSymbols[node.digit] ?? node.digit}
+                </text>
+              </g>
+            );
+          })}
+          {layout.nodes.map((node) => {
+            const x = px(node);
+            const y = py(node);
+            const isLeaf = node.node.children.length === 0;
+            const isDummy = node.node.isDummy;
+            return (
+              <g
+                key={`node-${node.path.join(",")}`}
+                onClick={() => toggle(node.node)}
+                onPointerEnter={() => isLeaf && setHovered(node)}
+                onPointerLeave={() => isLeaf && setHovered(null)}
+                className={isLeaf ? "" : "cursor-pointer"}
+              >
+                <title>
+                  {isLeaf
+                    ? displaySymbol(node.node.data, hexSymbols)
+                    : node.hiddenCount > 0
+                      ? `${node.hiddenCount} hidden nodes; click to expand`
+                      : "Click to collapse"}
+                </title>
+                <circle cx={x} cy={y} r={NODE_SIZE / 2 + 2} className="fill-white" />
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={NODE_SIZE / 2}
+                  className={`${
+                    onPath.has(node)
+                      ? "fill-amber-100 stroke-amber-500"
+                      : isLeaf
+                        ? isDummy
+                          ? "fill-gray-100 stroke-gray-300"
+                          : "fill-indigo-100 stroke-indigo-500"
+                        : "fill-purple-100 stroke-purple-500"
+                  } stroke-3`}
+                  strokeDasharray={isDummy ? "6 4" : undefined}
+                />
+                <text
+                  x={x}
+                  y={y}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className={`text-3xl font-mono font-semibold ${
+                    isLeaf
+                      ? isDummy
+                        ? "fill-gray-400"
+                        : "fill-indigo-600"
+                      : "fill-purple-600"
+                  }`}
+                >
+                  {nodeLabel(node.node, hexSymbols)}
+                </text>
+                {node.hiddenCount > 0 && (
+                  <text
+                    x={x}
+                    y={y + NODE_SIZE / 2 + 20}
+                    textAnchor="middle"
+                    className="text-lg font-mono fill-purple-500"
+                  >
+                    +{node.hiddenCount}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      {showCode && (
+        <div className="absolute top-3 left-3 font-mono text-sm bg-white/95 px-4 py-2 rounded-lg shadow-sm border border-amber-200 pointer-events-none">
+          <span className="text-gray-600">
+            {displaySymbol(hovered.node.data, hexSymbols)}
+          </span>
+          <span className="text-amber-600 ml-3">
+            {formatCodeword(hovered.path.length > 0 ? hovered.path : [0], digitSymbols)}
+          </span>
+        </div>
+      )}
+
+      <div className="absolute top-3 right-3 flex gap-2">
+        {collapsed.size > 0 && (
+          <button
+            onClick={() => setCollapsed(new Set())}
+            className="p-2 rounded-lg bg-white/95 text-gray-600 hover:bg-gray-100 border border-indigo-100 shadow-sm transition-all"
+            title="Expand all"
+          >
+            <UnfoldVertical className="w-5 h-5" />
+          </button>
+        )}
+        <button
+          onClick={() => zoomCenter(1.25)}
+          className="p-2 rounded-lg bg-white/95 text-gray-600 hover:bg-gray-100 border border-indigo-100 shadow-sm transition-all"
+          title="Zoom in"
+        >
+          <ZoomIn className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => zoomCenter(0.8)}
+          className="p-2 rounded-lg bg-white/95 text-gray-600 hover:bg-gray-100 border border-indigo-100 shadow-sm transition-all"
+          title="Zoom out"
+        >
+          <ZoomOut className="w-5 h-5" />
+        </button>
+        <button
+          onClick={fit}
+          className="p-2 rounded-lg bg-white/95 text-gray-600 hover:bg-gray-100 border border-indigo-100 shadow-sm transition-all"
+          title="Fit to view"
+        >
+          <Maximize2 className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TreeVisualization;
@@ -0,0 +1,141 @@
+import { useRef } from "react";
+import { FileDown, FileUp, Plus, Scale, Trash2 } from "lucide-react";
+import {
+  WeightRow,
+  WeightTable,
+  formatWeight,
+  normalizeWeights,
+  parseWeightCsv,
+  weightsToCsv,
+} from "../lib/weightTable";
+
+function WeightTableEditor({
+  rows,
+  table,
+  onChange,
+  onDownload,
+}: {
+  rows: WeightRow[];
+  table: WeightTable;
+  onChange: (rows: WeightRow[]) => void;
+  onDownload: (blob: Blob, fileName: string) => void;
+}) {
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (index: number, change: Partial<WeightRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  const importCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) onChange(parseWeightCsv(await file.text()));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-80 overflow-y-auto rounded-xl border border-gray-300 shadow-inner">
+        <table className="w-full text-sm">
+          <thead className="bg-gradient-to-br from-indigo-50 to-purple-50 text-gray-600 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Symbol</th>
+              <th className="px-3 py-2 text-left font-medium">Weight</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-t border-indigo-50 bg-white">
+                <td className="px-3 py-1">
+                  <input
+                    type="text"
+                    value={row.symbol}
+                    onChange={(e) => update(index, { symbol: e.target.value })}
+                    className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono"
+                  />
+                </td>
+                <td className="px-3 py-1">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={row.weight}
+                    onChange={(e) => update(index, { weight: e.target.value })}
+                    placeholder="e.g. 0.4 or 12"
+                    className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono"
+                  />
+                </td>
+                <td className="px-3 py-1 text-right">
+                  <button
+                    onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-all"
+                    title="Remove row"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onChange([...rows, { symbol: "", weight: "" }])}
+          className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all text-sm font-semibold"
+        >
+          <Plus className="w-4 h-4" />
+          Add row
+        </button>
+        <button
+          onClick={() => onChange(normalizeWeights(rows))}
+          className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all text-sm font-semibold"
+          title="Divide every weight by the total"
+        >
+          <Scale className="w-4 h-4" />
+          Normalize
+        </button>
+        <button
+          onClick={() => csvInputRef.current?.click()}
+          className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all text-sm font-semibold"
+        >
+          <FileUp className="w-4 h-4" />
+          Import CSV
+        </button>
+        <button
+          onClick={() =>
+            onDownload(new Blob([weightsToCsv(rows)], { type: "text/csv" }), "weights.csv")
+          }
+          className="flex items-center gap-2 py-2 px-4 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all text-sm font-semibold"
+        >
+          <FileDown className="w-4 h-4" />
+          Export CSV
+        </button>
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={importCsv}
+          className="hidden"
+        />
+      </div>
+
+      {table.errors.length > 0 ? (
+        <ul className="text-xs text-amber-600 space-y-1">
+          {table.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {table.frequencies.size} symbols;{" "}
+          {table.kind === "counts"
+            ? `integer counts totalling ${table.total}`
+            : `probabilities summing to ${formatWeight(table.total)}`}
+          . There is no source text, so nothing is encoded.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default WeightTableEditor;
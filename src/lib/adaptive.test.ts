@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { LiteralKind, decodeAdaptive, encodeAdaptive, recordAdaptive } from "./adaptive";
+import { DecodeError } from "./huffman";
+import { seededRandom } from "./random";
+import { tokenize } from "./symbolModels";
+
+const TEXT = "abracadabra, said the wizard 🧙 — and the ünicorn vanished! ".repeat(3);
+
+function roundTrip(symbols: string[], m: number, literal: LiteralKind): string[] {
+  const digits = encodeAdaptive(symbols, m, literal);
+  expect(digits.every((digit) => digit >= 0 && digit < m)).toBe(true);
+  return decodeAdaptive(digits, symbols.length, m, literal);
+}
+
+describe("adaptive coding", () => {
+  it("round-trips code points for every M", () => {
+    const symbols = Array.from(TEXT);
+    for (let m = 2; m <= 64; m++) {
+      expect(roundTrip(symbols, m, "codePoint"), `M = ${m}`).toEqual(symbols);
+    }
+  });
+
+  it("round-trips word and grapheme tokens", () => {
+    for (const model of ["word", "bigram", "grapheme"] as const) {
+      const symbols = tokenize(TEXT, model);
+      for (const m of [2, 3, 7, 16]) {
+        expect(roundTrip(symbols, m, "token"), `${model}, M = ${m}`).toEqual(symbols);
+      }
+    }
+  });
+
+  it("round-trips every byte value", () => {
+    const random = seededRandom(3);
+    const symbols = Array.from({ length: 2000 }, (_, i) =>
+      String.fromCharCode(i < 256 ? i : Math.floor(random() ** 2 * 256))
+    );
+    for (const m of [2, 5, 16, 64]) {
+      expect(roundTrip(symbols, m, "byte"), `M = ${m}`).toEqual(symbols);
+    }
+  });
+
+  it("round-trips a single repeated symbol and empty input", () => {
+    expect(roundTrip(["x", "x", "x"], 3, "codePoint")).toEqual(["x", "x", "x"]);
+    expect(encodeAdaptive([], 3, "codePoint")).toEqual([]);
+    expect(decodeAdaptive([], 0, 3, "codePoint")).toEqual([]);
+  });
+
+  it("settles close to the static Huffman code", () => {
+    const symbols = Array.from("aaaaaaaabbbbccd".repeat(40));
+    const frames = recordAdaptive(symbols, 2, "byte", symbols.length);
+    const late = frames.slice(-15).reduce((sum, frame) => sum + frame.code.length, 0);
+    // A fixed-width code for four symbols needs 30 digits per period and the
+    // static Huffman code 25; NYT costs the rarest symbol one extra digit
+    expect(late).toBe(26);
+  });
+
+  it("rejects damaged input", () => {
+    const symbols = Array.from("hello adaptive world");
+    const digits = encodeAdaptive(symbols, 3, "codePoint");
+    expect(() => decodeAdaptive(digits.slice(0, -1), symbols.length, 3, "codePoint")).toThrow(
+      DecodeError
+    );
+    expect(() => decodeAdaptive([...digits, 0], symbols.length, 3, "codePoint")).toThrow(
+      DecodeError
+    );
+    expect(() => decodeAdaptive([3, ...digits], symbols.length, 3, "codePoint")).toThrow(
+      DecodeError
+    );
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  Codeword,
+  DecodeError,
+  HuffmanTreeNode,
+  PROGRESS_INTERVAL,
+} from "./huffman";
+import { SymbolModel } from "./symbolModels";
+import { SymbolType } from "./symbols";
+
+// One-pass (adaptive) m-ary Huffman coding: an FGK-style tree that both
+// sides update after every symbol, so no codebook is sent.
+//
+// The first occurrence of a symbol is sent as the codeword of the NYT
+// ("not yet transmitted") leaf followed by the symbol as a literal. When
+// NYT is expanded it becomes an internal node with m children: the new
+// symbol, m − 2 empty "spare" leaves and a fresh NYT. Later new symbols
+// take a spare before NYT is expanded again, so no branch is wasted.
+
+// How a new symbol is written after the NYT codeword
+//   byte:      one byte value, fixed width
+//   codePoint: one Unicode code point, fixed width
+//   token:     code point count (fixed width), then each code point
+export type LiteralKind = "byte" | "codePoint" | "token";
+
+const BYTE_LIMIT = 0x100;
+const CODE_POINT_LIMIT = 0x110000;
+const TOKEN_LENGTH_LIMIT = 0x10000;
+
+interface AdaptiveNode {
+  weight: number;
+  parent: AdaptiveNode | null;
+  children: AdaptiveNode[];
+  kind: "nyt" | "spare" | "leaf" | "internal";
+  symbol: string | null;
+  // Position in the implicit numbering, highest number (the root) first
+  index: number;
+}
+
+export function literalKindFor(
+  symbolType: SymbolType,
+  model: SymbolModel
+): LiteralKind {
+  if (symbolType === "bytes") return "byte";
+  return model === "char" ? "codePoint" : "token";
+}
+
+// Smallest k with m^k >= limit
+function fixedWidth(limit: number, m: number): number {
+  let width = 0;
+  for (let span = 1; span < limit; span *= m) width++;
+  return width;
+}
+
+function writeFixed(value: number, width: number, m: number, out: number[]): void {
+  const digits: number[] = [];
+  for (let i = 0; i < width; i++) {
+    digits.push(value % m);
+    value = Math.floor(value / m);
+  }
+  for (let i = width - 1; i >= 0; i--) out.push(digits[i]);
+}
+
+export function literalDigits(
+  symbol: string,
+  kind: LiteralKind,
+  m: number
+): number[] {
+  const out: number[] = [];
+  if (kind === "byte") {
+    writeFixed(symbol.charCodeAt(0), fixedWidth(BYTE_LIMIT, m), m, out);
+    return out;
+  }
+
+  const codePoints = Array.from(symbol, (char) => char.codePointAt(0)!);
+  if (kind === "codePoint") {
+    writeFixed(codePoints[0], fixedWidth(CODE_POINT_LIMIT, m), m, out);
+    return out;
+  }
+
+  if (codePoints.length >= TOKEN_LENGTH_LIMIT) {
+    throw new RangeError("Token is too long to send as a literal");
+  }
+  writeFixed(codePoints.length, fixedWidth(TOKEN_LENGTH_LIMIT, m), m, out);
+  const width = fixedWidth(CODE_POINT_LIMIT, m);
+  codePoints.forEach((codePoint) => writeFixed(codePoint, width, m, out));
+  return out;
+}
+
+export class AdaptiveHuffmanTree {
+  readonly m: number;
+  root: AdaptiveNode;
+  private nyt: AdaptiveNode;
+  private spares: AdaptiveNode[] = [];
+  private order: AdaptiveNode[];
+  private leaves = new Map<string, AdaptiveNode>();
+
+  constructor(m: number) {
+    this.m = m;
+    this.root = this.nyt = {
+      weight: 0,
+      parent: null,
+      children: [],
+      kind: "nyt",
+      symbol: null,
+      index: 0,
+    };
+    this.order = [this.root];
+  }
+
+  leafFor(symbol: string): AdaptiveNode | undefined {
+    return this.leaves.get(symbol);
+  }
+
+  get nytNode(): AdaptiveNode {
+    return this.nyt;
+  }
+
+  codeOf(node: AdaptiveNode): Codeword {
+    const code: Codeword = [];
+    for (let current = node; current.parent; current = current.parent) {
+      code.push(current.parent.children.indexOf(current));
+    }
+    return code.reverse();
+  }
+
+  // Counts the occurrence of `symbol` and restores the sibling ordering;
+  // returns how many subtree swaps that took
+  update(symbol: string): number {
+    let node: AdaptiveNode | null =
+      this.leaves.get(symbol) ?? this.insert(symbol);
+    let swaps = 0;
+
+    while (node) {
+      const leader = this.blockLeader(node);
+      if (leader) {
+        this.swap(node, leader);
+        swaps++;
+      }
+      node.weight++;
+      node = node.parent;
+    }
+    return swaps;
+  }
+
+  private insert(symbol: string): AdaptiveNode {
+    let leaf = this.spares.shift();
+    if (!leaf) {
+      // Expand NYT into [symbol, spare × (m − 2), NYT]
+      const parent = this.nyt;
+      parent.kind = "internal";
+      const children: AdaptiveNode[] = [];
+      for (let i = 0; i < this.m; i++) {
+        const child: AdaptiveNode = {
+          weight: 0,
+          parent,
+          children: [],
+          kind: i === 0 ? "leaf" : i === this.m - 1 ? "nyt" : "spare",
+          symbol: null,
+          index: this.order.length,
+        };
+        this.order.push(child);
+        children.push(child);
+      }
+      parent.children = children;
+      leaf = children[0];
+      this.spares = children.slice(1, -1);
+      this.nyt = children[this.m - 1];
+    }
+
+    leaf.kind = "leaf";
+    leaf.symbol = symbol;
+    this.leaves.set(symbol, leaf);
+    return leaf;
+  }
+
+  private isAncestor(candidate: AdaptiveNode, node: AdaptiveNode): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+      if (current === candidate) return true;
+    }
+    return false;
+  }
+
+  // Highest-numbered node of the same weight that the node can trade
+  // places with (never one of its own ancestors or descendants)
+  private blockLeader(node: AdaptiveNode): AdaptiveNode | null {
+    let start = node.index;
+    while (start > 0 && this.order[start - 1].weight === node.weight) start--;
+
+    for (let i = start; i < node.index; i++) {
+      const candidate = this.order[i];
+      if (!this.isAncestor(candidate, node) && !this.isAncestor(node, candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private swap(a: AdaptiveNode, b: AdaptiveNode): void {
+    const parentA = a.parent!;
+    const parentB = b.parent!;
+    const slotA = parentA.children.indexOf(a);
+    const slotB = parentB.children.indexOf(b);
+    parentA.children[slotA] = b;
+    parentB.children[slotB] = a;
+    a.parent = parentB;
+    b.parent = parentA;
+
+    this.order[a.index] = b;
+    this.order[b.index] = a;
+    [a.index, b.index] = [b.index, a.index];
+  }
+
+  // Snapshot in the shape the tree views draw; NYT and spares show as dummies
+  toHuffmanTree(): HuffmanTreeNode {
+    const convert = (node: AdaptiveNode): HuffmanTreeNode => {
+      const label =
+        node.kind === "leaf"
+          ? node.symbol!
+          : node.kind === "internal"
+            ? "internal"
+            : node.kind === "nyt"
+              ? "NYT"
+              : "∅";
+      const copy = new HuffmanTreeNode(
+        label,
+        node.weight,
+        node.kind === "nyt" || node.kind === "spare"
+      );
+      copy.children = node.children.map(convert);
+      return copy;
+    };
+    return convert(this.root);
+  }
+}
+
+export interface AdaptiveStep {
+  symbol: string;
+  isNew: boolean;
+  // Codeword of the symbol (or of NYT for a new symbol)
+  code: Codeword;
+  literal: number[];
+  swaps: number;
+  // The live tree after the update; use toHuffmanTree() to keep a copy
+  tree: AdaptiveHuffmanTree;
+}
+
+export interface AdaptiveFrame extends Omit<AdaptiveStep, "tree"> {
+  tree: HuffmanTreeNode;
+}
+
+// Tree snapshots after each of the first `limit` symbols, for replaying
+export function recordAdaptive(
+  symbols: string[],
+  m: number,
+  literal: LiteralKind,
+  limit: number
+): AdaptiveFrame[] {
+  const frames: AdaptiveFrame[] = [];
+  encodeAdaptive(symbols.slice(0, limit), m, literal, ({ tree, ...step }) =>
+    frames.push({ ...step, tree: tree.toHuffmanTree() })
+  );
+  return frames;
+}
+
+export function encodeAdaptive(
+  symbols: Iterable<string>,
+  m: number,
+  literal: LiteralKind,
+  onStep?: (step: AdaptiveStep) => void
+): number[] {
+  const tree = new AdaptiveHuffmanTree(m);
+  const encoded: number[] = [];
+
+  for (const symbol of symbols) {
+    const leaf = tree.leafFor(symbol);
+    const code = tree.codeOf(leaf ?? tree.nytNode);
+    const literalPart = leaf ? [] : literalDigits(symbol, literal, m);
+    encoded.push(...code, ...literalPart);
+
+    const swaps = tree.update(symbol);
+    onStep?.({ symbol, isNew: !leaf, code, literal: literalPart, swaps, tree });
+  }
+
+  return encoded;
+}
+
+export function decodeAdaptive(
+  digits: ArrayLike<number>,
+  symbolCount: number,
+  m: number,
+  literal: LiteralKind,
+  onProgress?: (symbolsDone: number) => void
+): string[] {
+  const tree = new AdaptiveHuffmanTree(m);
+  const symbols: string[] = [];
+  let position = 0;
+
+  const next = (): number => {
+    if (position >= digits.length) {
+      throw new DecodeError(
+        `Encoded data is truncated after ${symbols.length} of ${symbolCount} symbols`
+      );
+    }
+    const digit = digits[position++];
+    if (!Number.isInteger(digit) || digit < 0 || digit >= m) {
+      throw new DecodeError(`Digit ${digit} is invalid for M = ${m}`);
+    }
+    return digit;
+  };
+  const readFixed = (limit: number): number => {
+    let value = 0;
+    for (let i = fixedWidth(limit, m); i > 0; i--) value = value * m + next();
+    if (value >= limit) {
+      throw new DecodeError("Encoded data has an invalid literal");
+    }
+    return value;
+  };
+
+  while (symbols.length < symbolCount) {
+    if (onProgress && symbols.length % PROGRESS_INTERVAL === 0) {
+      onProgress(symbols.length);
+    }
+    let node = tree.root;
+    while (node.children.length > 0) node = node.children[next()];
+
+    let symbol: string;
+    if (node.kind === "leaf") {
+      symbol = node.symbol!;
+    } else if (node.kind === "nyt") {
+      if (literal === "byte") {
+        symbol = String.fromCharCode(readFixed(BYTE_LIMIT));
+      } else if (literal === "codePoint") {
+        symbol = String.fromCodePoint(readFixed(CODE_POINT_LIMIT));
+      } else {
+        const length = readFixed(TOKEN_LENGTH_LIMIT);
+        const codePoints: number[] = [];
+        for (let i = 0; i < length; i++) codePoints.push(readFixed(CODE_POINT_LIMIT));
+        symbol = String.fromCodePoint(...codePoints);
+      }
+      if (tree.leafFor(symbol)) {
+        throw new DecodeError(
+          `Encoded data sends ${JSON.stringify(symbol)} as new twice`
+        );
+      }
+    } else {
+      throw new DecodeError("Encoded data reaches an unused spare leaf");
+    }
+
+    symbols.push(symbol);
+    tree.update(symbol);
+  }
+
+  if (position !== digits.length) {
+    throw new DecodeError("Encoded data has trailing digits");
+  }
+  return symbols;
+}
@@ -0,0 +1,75 @@
+import { Codeword } from "./huffman";
+
+export const MIN_BRANCHING_FACTOR = 2;
+export const MAX_BRANCHING_FACTOR = 64;
+
+// Display symbols for digit values 0..63
+export const STANDARD_DIGITS = Array.from(
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz+/"
+);
+
+export type AlphabetPresetId = "standard" | "dna" | "pam" | "custom";
+
+export const ALPHABET_PRESETS: {
+  id: AlphabetPresetId;
+  name: string;
+  symbols: string[];
+}[] = [
+  { id: "standard", name: "0–9 A–Z a–z + /", symbols: STANDARD_DIGITS },
+  { id: "dna", name: "DNA bases (m ≤ 4)", symbols: ["A", "C", "G", "T"] },
+  {
+    id: "pam",
+    name: "Signal levels (m ≤ 8)",
+    symbols: ["-7", "-5", "-3", "-1", "+1", "+3", "+5", "+7"],
+  },
+  { id: "custom", name: "Custom", symbols: [] },
+];
+
+// Accepts "A,C,G,T", "A C G T" or, without any separator, "ACGT"
+export function parseAlphabet(input: string): string[] {
+  const trimmed = input.trim();
+  if (trimmed === "") return [];
+  if (/[\s,]/.test(trimmed)) {
+    return trimmed.split(/[\s,]+/).filter((symbol) => symbol !== "");
+  }
+  return Array.from(trimmed);
+}
+
+export function validateAlphabet(symbols: string[], m: number): string | null {
+  if (symbols.length < m) {
+    return `Alphabet has ${symbols.length} symbols but m = ${m} needs ${m}`;
+  }
+  const used = symbols.slice(0, m);
+  if (new Set(used).size !== used.length) {
+    return "Alphabet symbols must be distinct";
+  }
+  return null;
+}
+
+function needsSeparator(symbols: string[]): boolean {
+  return symbols.some((symbol) => Array.from(symbol).length !== 1);
+}
+
+export function formatDigits(digits: ArrayLike<number>, symbols: string[]): string {
+  const parts = Array.from(digits, (digit) => symbols[digit] ?? "?");
+  // Multi-character symbols such as "+3" would be ambiguous without spacing
+  return parts.join(needsSeparator(symbols) ? " " : "");
+}
+
+export function formatCodeword(code: Codeword | undefined, symbols: string[]): string {
+  return code ? formatDigits(code, symbols) : "";
+}
+
+// Falls back to the standard digits when the chosen alphabet cannot cover m
+export function resolveAlphabet(
+  id: AlphabetPresetId,
+  custom: string,
+  m: number
+): { symbols: string[]; error: string | null } {
+  const requested =
+    id === "custom"
+      ? parseAlphabet(custom)
+      : ALPHABET_PRESETS.find((preset) => preset.id === id)!.symbols;
+  const error = validateAlphabet(requested, m);
+  return { symbols: error ? STANDARD_DIGITS : requested, error };
+}
@@ -0,0 +1,385 @@
+import { generateCanonicalCodes } from "./canonical";
+import { Codeword, DecodeError } from "./huffman";
+
+// Classic alternatives to Huffman coding, for the comparison view. Each
+// works from the same symbol frequencies and branching factor m.
+
+// Code units order, so that results do not depend on the locale
+function compareSymbols(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Most probable first
+function byFrequency(frequencies: Map<string, number>): [string, number][] {
+  return Array.from(frequencies).sort(
+    ([a, freqA], [b, freqB]) => freqB - freqA || compareSymbols(a, b)
+  );
+}
+
+// Shannon code: symbol i gets ⌈−log_m p_i⌉ digits, the shortest length with
+// m^−l <= p_i. Computed with integers to avoid rounding at exact powers.
+export function shannonCodeLengths(
+  frequencies: Map<string, number>,
+  m: number
+): Map<string, number> {
+  let total = 0;
+  for (const freq of frequencies.values()) total += freq;
+
+  const lengths = new Map<string, number>();
+  for (const [symbol, freq] of frequencies) {
+    let length = 1;
+    for (let scaled = freq * m; scaled < total; scaled *= m) length++;
+    lengths.set(symbol, length);
+  }
+  return lengths;
+}
+
+// Lengths satisfy Kraft, so canonical assignment yields a prefix code
+export function shannonCodes(
+  frequencies: Map<string, number>,
+  m: number
+): Map<string, Codeword> {
+  return generateCanonicalCodes(shannonCodeLengths(frequencies, m), m);
+}
+
+// m-ary Shannon–Fano: sort by probability, cut the list into (up to) m
+// contiguous groups of near-equal weight, give group j the digit j and
+// recurse into each group
+export function shannonFanoCodes(
+  frequencies: Map<string, number>,
+  m: number
+): Map<string, Codeword> {
+  const codes = new Map<string, Codeword>();
+  const sorted = byFrequency(frequencies);
+  if (sorted.length === 1) {
+    codes.set(sorted[0][0], [0]);
+    return codes;
+  }
+
+  const split = (items: [string, number][], prefix: Codeword) => {
+    if (items.length === 1) {
+      codes.set(items[0][0], prefix);
+      return;
+    }
+
+    let remaining = items.reduce((sum, [, freq]) => sum + freq, 0);
+    let start = 0;
+    for (let digit = 0; digit < m && start < items.length; digit++) {
+      const groupsLeft = m - digit;
+      let end = start + 1;
+      if (items.length - start <= groupsLeft) {
+        // One item per remaining digit
+      } else if (groupsLeft === 1) {
+        end = items.length;
+      } else {
+        // Grow the group while that brings it closer to an equal share,
+        // leaving at least one item for each later group
+        const target = remaining / groupsLeft;
+        let weight = items[start][1];
+        while (
+          end < items.length - (groupsLeft - 1) &&
+          Math.abs(weight + items[end][1] - target) <= Math.abs(weight - target)
+        ) {
+          weight += items[end][1];
+          end++;
+        }
+      }
+
+      const group = items.slice(start, end);
+      remaining -= group.reduce((sum, [, freq]) => sum + freq, 0);
+      split(group, [...prefix, digit]);
+      start = end;
+    }
+  };
+  split(sorted, []);
+  return codes;
+}
+
+// Tunstall (variable-to-fixed) coding: a dictionary of source words, each
+// sent as a fixed-length codeword of k digits. Starting from the single
+// symbols, the most probable word is repeatedly replaced by its n
+// one-symbol extensions while the dictionary still fits in m^k entries.
+
+// Dictionary size the comparison aims for: k is the largest with m^k at
+// most this, unless more entries are needed to hold every symbol
+export const TUNSTALL_TARGET_ENTRIES = 4096;
+
+interface TunstallNode {
+  probability: number;
+  children: Map<string, TunstallNode>;
+  // Index of the word's codeword; -1 for expanded (internal) words
+  index: number;
+}
+
+export interface TunstallCode {
+  k: number;
+  words: { word: string[]; code: Codeword }[];
+  root: TunstallNode;
+}
+
+// Max-heap of leaves by probability, so the next word to expand is on top
+function pushLeaf(heap: TunstallNode[], node: TunstallNode): void {
+  let index = heap.length;
+  heap.push(node);
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].probability >= node.probability) break;
+    heap[index] = heap[parent];
+    index = parent;
+  }
+  heap[index] = node;
+}
+
+function popLeaf(heap: TunstallNode[]): TunstallNode {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    let index = 0;
+    for (;;) {
+      const left = 2 * index + 1;
+      if (left >= heap.length) break;
+      const right = left + 1;
+      const child =
+        right < heap.length && heap[right].probability > heap[left].probability
+          ? right
+          : left;
+      if (last.probability >= heap[child].probability) break;
+      heap[index] = heap[child];
+      index = child;
+    }
+    heap[index] = last;
+  }
+  return top;
+}
+
+function toDigits(value: number, width: number, m: number): Codeword {
+  const digits: Codeword = new Array(width);
+  for (let i = width - 1; i >= 0; i--) {
+    digits[i] = value % m;
+    value = Math.floor(value / m);
+  }
+  return digits;
+}
+
+export function buildTunstallCode(
+  frequencies: Map<string, number>,
+  m: number
+): TunstallCode {
+  const alphabet = byFrequency(frequencies);
+  const n = alphabet.length;
+  let total = 0;
+  for (const [, freq] of alphabet) total += freq;
+
+  let k = 1;
+  if (n > TUNSTALL_TARGET_ENTRIES) {
+    while (m ** k < n) k++;
+  } else {
+    while (m ** (k + 1) <= TUNSTALL_TARGET_ENTRIES) k++;
+  }
+  const capacity = m ** k;
+
+  const root: TunstallNode = { probability: 1, children: new Map(), index: -1 };
+  const expand = (node: TunstallNode) => {
+    for (const [symbol, freq] of alphabet) {
+      node.children.set(symbol, {
+        probability: (node.probability * freq) / total,
+        children: new Map(),
+        index: 0,
+      });
+    }
+  };
+  expand(root);
+
+  const leaves: TunstallNode[] = [];
+  for (const child of root.children.values()) pushLeaf(leaves, child);
+  // Expanding one word adds n − 1 entries
+  let size = n;
+  while (n > 1 && size + n - 1 <= capacity) {
+    const best = popLeaf(leaves);
+    expand(best);
+    for (const child of best.children.values()) pushLeaf(leaves, child);
+    size += n - 1;
+  }
+
+  const words: TunstallCode["words"] = [];
+  const collect = (node: TunstallNode, word: string[]) => {
+    for (const [symbol, child] of node.children) {
+      const extended = [...word, symbol];
+      if (child.children.size === 0) {
+        child.index = words.length;
+        words.push({ word: extended, code: toDigits(child.index, k, m) });
+      } else {
+        child.index = -1;
+        collect(child, extended);
+      }
+    }
+  };
+  collect(root, []);
+  return { k, words, root };
+}
+
+// Greedy longest match. A trailing partial word is completed with any
+// dictionary word that extends it; the decoder drops the excess symbols.
+export function encodeTunstall(symbols: Iterable<string>, code: TunstallCode): number[] {
+  const out: number[] = [];
+  let node = code.root;
+  for (const symbol of symbols) {
+    const next = node.children.get(symbol);
+    if (!next) throw new RangeError(`Symbol ${JSON.stringify(symbol)} is not in the dictionary`);
+    node = next;
+    if (node.index >= 0) {
+      out.push(...code.words[node.index].code);
+      node = code.root;
+    }
+  }
+  if (node !== code.root) {
+    while (node.index < 0) node = node.children.values().next().value!;
+    out.push(...code.words[node.index].code);
+  }
+  return out;
+}
+
+export function decodeTunstall(
+  digits: ArrayLike<number>,
+  symbolCount: number,
+  code: TunstallCode,
+  m: number
+): string[] {
+  const symbols: string[] = [];
+  for (let position = 0; symbols.length < symbolCount; position += code.k) {
+    if (position + code.k > digits.length) {
+      throw new DecodeError("Encoded data is truncated");
+    }
+    let index = 0;
+    for (let i = 0; i < code.k; i++) index = index * m + digits[position + i];
+    const entry = code.words[index];
+    if (!entry) throw new DecodeError(`Codeword ${index} is not in the dictionary`);
+    symbols.push(...entry.word);
+  }
+  symbols.length = symbolCount;
+  return symbols;
+}
+
+// Arithmetic coding with base-m output: a range coder whose window is D
+// digits wide (m^D <= 2^52, so every product stays exact in a double).
+// When the range shrinks below m^(D−1) the top digit of `low` is final and
+// is shifted out; a later addition can still carry into digits already
+// written, so the carry is propagated back through the output.
+
+interface ArithmeticModel {
+  symbols: string[];
+  // cumulative[i] is the total frequency of symbols before symbol i
+  cumulative: number[];
+  total: number;
+  index: Map<string, number>;
+}
+
+function arithmeticModel(frequencies: Map<string, number>): ArithmeticModel {
+  const symbols = Array.from(frequencies.keys()).sort(compareSymbols);
+  const cumulative: number[] = [];
+  const index = new Map<string, number>();
+  let total = 0;
+  symbols.forEach((symbol, i) => {
+    cumulative.push(total);
+    index.set(symbol, i);
+    total += frequencies.get(symbol)!;
+  });
+  return { symbols, cumulative, total, index };
+}
+
+function windowDigits(m: number): number {
+  return Math.floor(52 / Math.log2(m));
+}
+
+export function encodeArithmetic(
+  symbols: Iterable<string>,
+  frequencies: Map<string, number>,
+  m: number
+): number[] {
+  const model = arithmeticModel(frequencies);
+  const window = m ** windowDigits(m);
+  const top = window / m;
+  const out: number[] = [];
+
+  const carry = () => {
+    let i = out.length - 1;
+    while (out[i] === m - 1) out[i--] = 0;
+    out[i]++;
+  };
+
+  let low = 0;
+  let range = window;
+  for (const symbol of symbols) {
+    const i = model.index.get(symbol);
+    if (i === undefined) throw new RangeError(`Symbol ${JSON.stringify(symbol)} has no frequency`);
+    const step = Math.floor(range / model.total);
+    low += step * model.cumulative[i];
+    range = step * frequencies.get(symbol)!;
+    if (low >= window) {
+      low -= window;
+      carry();
+    }
+    while (range < top) {
+      out.push(Math.floor(low / top));
+      low = (low % top) * m;
+      range *= m;
+    }
+  }
+
+  // One more digit pins a value inside [low, low + range), since range >= top
+  if (out.length > 0 || low > 0 || range < window) {
+    let value = Math.ceil(low / top) * top;
+    if (value >= window) {
+      value -= window;
+      carry();
+    }
+    out.push(value / top);
+  }
+  return out;
+}
+
+export function decodeArithmetic(
+  digits: ArrayLike<number>,
+  symbolCount: number,
+  frequencies: Map<string, number>,
+  m: number
+): string[] {
+  const model = arithmeticModel(frequencies);
+  const width = windowDigits(m);
+  const top = m ** (width - 1);
+  let position = 0;
+  // Reading past the end gives zeros, as the encoder's final digit assumes
+  const next = () => (position < digits.length ? digits[position++] : 0);
+
+  // value is (code − low), which always stays below range
+  let value = 0;
+  for (let i = 0; i < width; i++) value = value * m + next();
+  let range = m ** width;
+
+  const symbols: string[] = [];
+  while (symbols.length < symbolCount) {
+    const step = Math.floor(range / model.total);
+    const target = Math.min(model.total - 1, Math.floor(value / step));
+    // Last symbol whose cumulative frequency is <= target
+    let lo = 0;
+    let hi = model.symbols.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (model.cumulative[mid] <= target) lo = mid;
+      else hi = mid - 1;
+    }
+    const symbol = model.symbols[lo];
+    symbols.push(symbol);
+
+    value -= step * model.cumulative[lo];
+    range = step * frequencies.get(symbol)!;
+    if (value < 0 || value >= range) {
+      throw new DecodeError("Encoded data is not a valid arithmetic code");
+    }
+    while (range < top) {
+      value = value * m + next();
+      range *= m;
+    }
+  }
+  return symbols;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { MAX_BRANCHING_FACTOR, MIN_BRANCHING_FACTOR } from "./alphabet";
+import { ARCHIVE_CODINGS, ArchiveError, parseArchive } from "./archive";
+import { compress, decompress } from "./coder";
+import { crc32 } from "./crc32";
+import { SYMBOL_MODEL_IDS } from "./symbolModels";
+
+const TEXT =
+  "the quick brown fox jumps over the lazy dog, then the dog naps. " +
+  "Ünïcödé, emoji 👍🏽 and a family 👨‍👩‍👧 survive the trip too.\n";
+
+const BYTES = Uint8Array.from({ length: 300 }, (_, i) => (i * 37 + (i >> 3)) & 0xff);
+
+const textDecoder = new TextDecoder();
+
+const BRANCHING_FACTORS = Array.from(
+  { length: MAX_BRANCHING_FACTOR - MIN_BRANCHING_FACTOR + 1 },
+  (_, i) => MIN_BRANCHING_FACTOR + i
+);
+
+// Rewrites the trailing CRC-32 so a patched header still passes the check
+function withValidCrc(archive: Uint8Array): Uint8Array {
+  const body = archive.subarray(0, archive.length - 4);
+  new DataView(archive.buffer, archive.byteOffset + body.length, 4).setUint32(
+    0,
+    crc32(body),
+    true
+  );
+  return archive;
+}
+
+describe("archive round trips", () => {
+  for (const coding of ARCHIVE_CODINGS) {
+    describe(`${coding} coding`, () => {
+      for (const model of SYMBOL_MODEL_IDS) {
+        it(`restores text for every M with the ${model} model`, () => {
+          for (const m of BRANCHING_FACTORS) {
+            const archive = compress(TEXT, { m, model, coding, blockSize: 16, fileName: "t.txt" });
+            const file = decompress(archive);
+            expect(textDecoder.decode(file.data), `M = ${m}`).toBe(TEXT);
+            expect(file).toMatchObject({ m, model, coding, symbolType: "text", fileName: "t.txt" });
+          }
+        });
+      }
+
+      it("restores bytes for every M", () => {
+        for (const m of BRANCHING_FACTORS) {
+          const file = decompress(compress(BYTES, { m, coding, blockSize: 64 }));
+          expect(file.data, `M = ${m}`).toEqual(BYTES);
+          expect(file).toMatchObject({ m, coding, symbolType: "bytes" });
+        }
+      });
+
+      it("restores empty input", () => {
+        expect(decompress(compress("", { m: 3, coding })).data).toHaveLength(0);
+        expect(decompress(compress(new Uint8Array(0), { m: 3, coding })).data).toHaveLength(0);
+      });
+    });
+  }
+
+  it("keeps length-limited codebooks within the limit", () => {
+    for (const m of [3, 5, 8]) {
+      const { archive, data } = decompress(compress(TEXT, { m, maxLength: 4 }));
+      expect(textDecoder.decode(data)).toBe(TEXT);
+      for (const block of archive.blocks) {
+        for (const [, length] of block.codeLengths) expect(length).toBeLessThanOrEqual(4);
+      }
+    }
+  });
+});
+
+describe("parseArchive", () => {
+  it("rejects a corrupted archive", () => {
+    const archive = compress(TEXT, { m: 4 });
+    archive[archive.length - 10] ^= 0x01;
+    expect(() => parseArchive(archive)).toThrow(ArchiveError);
+  });
+
+  it("rejects a truncated archive", () => {
+    const archive = compress(TEXT, { m: 4 });
+    expect(() => parseArchive(archive.subarray(0, archive.length - 1))).toThrow(ArchiveError);
+  });
+
+  it("rejects data that is not an archive", () => {
+    expect(() => parseArchive(new TextEncoder().encode("plain text"))).toThrow(ArchiveError);
+  });
+
+  it("rejects M outside the supported range", () => {
+    for (const m of [0, 1, MAX_BRANCHING_FACTOR + 1, 255]) {
+      const archive = compress(TEXT, { m: 4 });
+      // M follows the magic and the version byte
+      archive[5] = m;
+      expect(() => parseArchive(withValidCrc(archive)), `M = ${m}`).toThrow(
+        /invalid M value/
+      );
+    }
+  });
+});
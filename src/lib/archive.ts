@@ -0,0 +1,777 @@
+import {
+  CanonicalCodeError,
+  calculateCodeLengths,
+  generateCanonicalCodes,
+  sortCanonically,
+} from "./canonical";
+import { decodeAdaptive, encodeAdaptive, literalKindFor } from "./adaptive";
+import { MAX_BRANCHING_FACTOR, MIN_BRANCHING_FACTOR } from "./alphabet";
+import { crc32 } from "./crc32";
+import { DigitPacker, packDigits, packedLength, unpackDigits } from "./digitPacking";
+import {
+  CHUNK_SYMBOLS,
+  Codeword,
+  DecodeError,
+  calculateFrequencies,
+  PROGRESS_INTERVAL,
+  decodeDigitStream,
+  encodeText,
+} from "./huffman";
+import { SYMBOL_MODEL_IDS, SymbolModel } from "./symbolModels";
+import { SymbolType, byteSymbol, symbolsToBytes } from "./symbols";
+
+// Binary container layout (all integers little-endian):
+//
+//   magic "MHUF" | version u8 | m u8 | symbol type u8 (0 text, 1 bytes)
+//   symbol model u8 (index into SYMBOL_MODEL_IDS; 0 for byte archives)
+//   coding u8 (0 static, 1 adaptive, 2 block)
+//   original length u32 (symbols for text, bytes for byte archives)
+//   file name: length u16 + UTF-8 bytes
+//   block count u32 (1 unless the coding is block), then per block:
+//     symbol count u32
+//     codebook: symbol count u32, then per symbol (in canonical order) a u16
+//               byte length, the symbol bytes (UTF-8 for text tokens, the raw
+//               byte for byte archives) and a u16 codeword length; the
+//               codewords themselves are rebuilt canonically from the lengths.
+//               Adaptive archives have an empty codebook: the decoder grows
+//               its own tree.
+//     data: digit count u32 + packed digits
+//   CRC-32 u32 over everything before it
+export const ARCHIVE_MAGIC = [0x4d, 0x48, 0x55, 0x46];
+export const ARCHIVE_VERSION = 6;
+export const ARCHIVE_EXTENSION = ".mhuf";
+
+// Block coding splits the input into fixed-size blocks that each carry
+// their own codebook, so the codes follow local statistics
+export type ArchiveCoding = "static" | "adaptive" | "block";
+
+export const ARCHIVE_CODINGS: ArchiveCoding[] = ["static", "adaptive", "block"];
+
+export const DEFAULT_BLOCK_SIZE = 0x10000;
+
+export interface ArchiveBlock {
+  symbolCount: number;
+  codeLengths: [string, number][];
+  encodedData: Uint8Array;
+}
+
+export interface CompressedArchive {
+  version: number;
+  mValue: number;
+  symbolType: SymbolType;
+  symbolModel: SymbolModel;
+  coding: ArchiveCoding;
+  originalFileName: string;
+  originalLength: number;
+  blocks: ArchiveBlock[];
+}
+
+export type ArchiveHeader = Omit<CompressedArchive, "blocks">;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Receives a streamed archive or file piece by piece, in order
+export type ChunkCallback = (chunk: Uint8Array) => void;
+
+export interface ArchiveOptions {
+  m: number;
+  originalFileName?: string;
+  symbolType?: SymbolType;
+  symbolModel?: SymbolModel;
+  // Code length cap for the codebooks that block archives build
+  maxLength?: number;
+  // Reports symbols encoded so far out of the input length
+  onProgress?: ProgressCallback;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    const grown = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + extra)
+    );
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  uint8(value: number) {
+    this.reserve(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  uint16(value: number) {
+    this.uint8(value);
+    this.uint8(value >>> 8);
+  }
+
+  uint32(value: number) {
+    this.uint16(value & 0xffff);
+    this.uint16(value >>> 16);
+  }
+
+  bytes(values: Uint8Array) {
+    this.reserve(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Joins the chunks of a streamed archive or file
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new ArchiveError("Archive is truncated");
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint8(): number {
+    return this.take(1)[0];
+  }
+
+  uint16(): number {
+    const [lo, hi] = this.take(2);
+    return lo | (hi << 8);
+  }
+
+  uint32(): number {
+    const low = this.uint16();
+    return (low + this.uint16() * 0x10000) >>> 0;
+  }
+
+  bytes(length: number): Uint8Array {
+    return this.take(length);
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
+
+function readUtf8(bytes: Uint8Array, what: string): string {
+  try {
+    return textDecoder.decode(bytes);
+  } catch {
+    throw new ArchiveError(`Archive has an invalid ${what} (not UTF-8)`);
+  }
+}
+
+function readPackedDigits(
+  reader: ByteReader,
+  digitCount: number,
+  m: number
+): Uint8Array {
+  const length = packedLength(digitCount, m);
+  if (length > reader.remaining) {
+    throw new ArchiveError("Archive is truncated");
+  }
+  try {
+    return unpackDigits(reader.bytes(length), digitCount, m);
+  } catch (error) {
+    throw new ArchiveError(
+      error instanceof RangeError ? error.message : "Packed digits are corrupted"
+    );
+  }
+}
+
+function symbolBytes(symbol: string, symbolType: SymbolType): Uint8Array {
+  return symbolType === "bytes"
+    ? symbolsToBytes(symbol)
+    : textEncoder.encode(symbol);
+}
+
+// Bytes the codebook section takes in the container. Larger alphabets
+// (words, n-grams) shorten the data but pay for it here.
+export function codebookSize(
+  codeLengths: Iterable<[string, number]>,
+  symbolType: SymbolType
+): number {
+  let size = 4;
+  for (const [symbol] of codeLengths) {
+    size += 2 + symbolBytes(symbol, symbolType).length + 2;
+  }
+  return size;
+}
+
+function canonicalCodes(
+  codeLengths: [string, number][],
+  m: number
+): Map<string, Codeword> {
+  try {
+    return generateCanonicalCodes(codeLengths, m);
+  } catch (error) {
+    throw new ArchiveError(
+      error instanceof CanonicalCodeError
+        ? `Archive has an invalid codebook: ${error.message}`
+        : "Archive has an invalid codebook"
+    );
+  }
+}
+
+function symbolCount(symbols: string | string[]): number {
+  return Array.isArray(symbols) ? symbols.length : Array.from(symbols).length;
+}
+
+function staticCodebook(
+  symbols: string | string[],
+  lengths: Map<string, number>,
+  m: number
+): { codeLengths: [string, number][]; codes: Map<string, Codeword> } {
+  // Only ship lengths for symbols that actually occur in the input
+  const codeLengths: [string, number][] = [];
+  for (const symbol of new Set(symbols)) {
+    const length = lengths.get(symbol);
+    if (length === undefined) {
+      throw new ArchiveError(`No code length for symbol ${JSON.stringify(symbol)}`);
+    }
+    codeLengths.push([symbol, length]);
+  }
+
+  // The data is always written with the canonical codes the decoder rebuilds
+  const sorted = sortCanonically(codeLengths);
+  return { codeLengths: sorted, codes: canonicalCodes(sorted, m) };
+}
+
+function staticBlock(
+  symbols: string | string[],
+  lengths: Map<string, number>,
+  m: number,
+  onProgress?: (symbolsDone: number) => void
+): ArchiveBlock {
+  const { codeLengths, codes } = staticCodebook(symbols, lengths, m);
+  return {
+    symbolCount: symbolCount(symbols),
+    codeLengths,
+    encodedData: encodeText(symbols, codes, onProgress),
+  };
+}
+
+function archiveHeader(
+  coding: ArchiveCoding,
+  symbols: string | string[],
+  {
+    m,
+    originalFileName = "",
+    symbolType = "text",
+    symbolModel = "char",
+  }: ArchiveOptions
+): ArchiveHeader {
+  return {
+    version: ARCHIVE_VERSION,
+    mValue: m,
+    symbolType,
+    symbolModel,
+    coding,
+    originalFileName,
+    originalLength: symbolCount(symbols),
+  };
+}
+
+export function createArchive(
+  symbols: string | string[],
+  lengths: Map<string, number>,
+  options: ArchiveOptions
+): CompressedArchive {
+  const header = archiveHeader("static", symbols, options);
+  const { onProgress } = options;
+  const block = staticBlock(
+    symbols,
+    lengths,
+    options.m,
+    onProgress && ((done) => onProgress(done, header.originalLength))
+  );
+  return { ...header, blocks: [block] };
+}
+
+export function createAdaptiveArchive(
+  symbols: string | string[],
+  options: ArchiveOptions
+): CompressedArchive {
+  const header = archiveHeader("adaptive", symbols, options);
+  const { onProgress } = options;
+  let done = 0;
+  const encodedData = Uint8Array.from(
+    encodeAdaptive(
+      symbols,
+      header.mValue,
+      literalKindFor(header.symbolType, header.symbolModel),
+      onProgress &&
+        (() => {
+          if (++done % PROGRESS_INTERVAL === 0) {
+            onProgress(done, header.originalLength);
+          }
+        })
+    )
+  );
+  return {
+    ...header,
+    blocks: [{ symbolCount: header.originalLength, codeLengths: [], encodedData }],
+  };
+}
+
+function validateBlockSize(blockSize: number): void {
+  if (!Number.isInteger(blockSize) || blockSize < 1) {
+    throw new RangeError(`Block size must be a positive integer, got ${blockSize}`);
+  }
+}
+
+export function createBlockArchive(
+  symbols: string | string[],
+  blockSize: number,
+  options: ArchiveOptions
+): CompressedArchive {
+  validateBlockSize(blockSize);
+  // Byte input is a string with one code unit per symbol, so slicing by
+  // code units splits it into whole symbols
+  const header = archiveHeader("block", symbols, options);
+  const { m, maxLength, onProgress } = options;
+  const blocks: ArchiveBlock[] = [];
+
+  for (let start = 0; start < symbols.length; start += blockSize) {
+    const blockSymbols = symbols.slice(start, start + blockSize);
+    const lengths = calculateCodeLengths(
+      calculateFrequencies(blockSymbols),
+      m,
+      maxLength
+    );
+    blocks.push(
+      staticBlock(
+        blockSymbols,
+        lengths,
+        m,
+        onProgress && ((done) => onProgress(start + done, header.originalLength))
+      )
+    );
+    onProgress?.(Math.min(start + blockSize, symbols.length), header.originalLength);
+  }
+
+  return { ...header, blocks };
+}
+
+function writeCodebook(
+  writer: ByteWriter,
+  codeLengths: [string, number][],
+  symbolType: SymbolType
+) {
+  writer.uint32(codeLengths.length);
+  for (const [symbol, length] of codeLengths) {
+    const bytes = symbolBytes(symbol, symbolType);
+    if (bytes.length > 0xffff) {
+      throw new ArchiveError("Symbol is too long to store in the codebook");
+    }
+    writer.uint16(bytes.length);
+    writer.bytes(bytes);
+    writer.uint16(length);
+  }
+}
+
+// Writes the container front to back in chunks with a running CRC, so a
+// chunk can be handed on (and dropped) as soon as it is written
+class ArchiveStreamWriter {
+  private crc = 0;
+
+  constructor(private readonly onChunk: ChunkCallback) {}
+
+  write(bytes: Uint8Array) {
+    this.crc = crc32(bytes, this.crc);
+    this.onChunk(bytes);
+  }
+
+  header(header: ArchiveHeader, blockCount: number) {
+    const writer = new ByteWriter();
+    ARCHIVE_MAGIC.forEach((byte) => writer.uint8(byte));
+    writer.uint8(header.version);
+    writer.uint8(header.mValue);
+    writer.uint8(header.symbolType === "bytes" ? 1 : 0);
+    writer.uint8(SYMBOL_MODEL_IDS.indexOf(header.symbolModel));
+    writer.uint8(ARCHIVE_CODINGS.indexOf(header.coding));
+    writer.uint32(header.originalLength);
+
+    const name = textEncoder.encode(header.originalFileName);
+    writer.uint16(name.length);
+    writer.bytes(name);
+
+    writer.uint32(blockCount);
+    this.write(writer.toUint8Array());
+  }
+
+  // Everything in a block before its packed digits
+  blockHeader(
+    symbolCount: number,
+    codeLengths: [string, number][],
+    digitCount: number,
+    symbolType: SymbolType
+  ) {
+    const writer = new ByteWriter();
+    writer.uint32(symbolCount);
+    writeCodebook(writer, codeLengths, symbolType);
+    writer.uint32(digitCount);
+    this.write(writer.toUint8Array());
+  }
+
+  packer(m: number): DigitPacker {
+    return new DigitPacker(m, (bytes) => this.write(bytes));
+  }
+
+  finish() {
+    const crc = new Uint8Array(4);
+    new DataView(crc.buffer).setUint32(0, this.crc, true);
+    this.onChunk(crc);
+  }
+}
+
+export function serializeArchive(archive: CompressedArchive): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const writer = new ArchiveStreamWriter((chunk) => chunks.push(chunk));
+  writer.header(archive, archive.blocks.length);
+  for (const block of archive.blocks) {
+    writer.blockHeader(
+      block.symbolCount,
+      block.codeLengths,
+      block.encodedData.length,
+      archive.symbolType
+    );
+    writer.write(packDigits(block.encodedData, archive.mValue));
+  }
+  writer.finish();
+  return concatChunks(chunks);
+}
+
+// Encodes a static block CHUNK_SYMBOLS symbols at a time. The digit count
+// the block header needs follows from the code lengths, so only one chunk
+// of digits is ever held.
+function writeStaticBlock(
+  writer: ArchiveStreamWriter,
+  symbols: string | string[],
+  lengths: Map<string, number>,
+  header: ArchiveHeader,
+  onProgress?: (symbolsDone: number) => void
+) {
+  const { codeLengths, codes } = staticCodebook(symbols, lengths, header.mValue);
+  let digitCount = 0;
+  for (const symbol of symbols) digitCount += codes.get(symbol)!.length;
+  writer.blockHeader(symbols.length, codeLengths, digitCount, header.symbolType);
+
+  const packer = writer.packer(header.mValue);
+  for (let start = 0; start < symbols.length; start += CHUNK_SYMBOLS) {
+    packer.push(encodeText(symbols.slice(start, start + CHUNK_SYMBOLS), codes));
+    onProgress?.(Math.min(start + CHUNK_SYMBOLS, symbols.length));
+  }
+  packer.flush();
+}
+
+// Streaming counterparts of createArchive and friends: the same bytes as
+// serializing their result, handed to onChunk as they are produced
+export function writeArchive(
+  symbols: string | string[],
+  lengths: Map<string, number>,
+  options: ArchiveOptions,
+  onChunk: ChunkCallback
+): void {
+  const header = archiveHeader("static", symbols, options);
+  const { onProgress } = options;
+  const writer = new ArchiveStreamWriter(onChunk);
+  writer.header(header, 1);
+  writeStaticBlock(
+    writer,
+    symbols,
+    lengths,
+    header,
+    onProgress && ((done) => onProgress(done, header.originalLength))
+  );
+  writer.finish();
+}
+
+// The adaptive digit count is only known once everything is coded, and the
+// block header needs it first, so this archive arrives as a single chunk
+export function writeAdaptiveArchive(
+  symbols: string | string[],
+  options: ArchiveOptions,
+  onChunk: ChunkCallback
+): void {
+  onChunk(serializeArchive(createAdaptiveArchive(symbols, options)));
+}
+
+export function writeBlockArchive(
+  symbols: string | string[],
+  blockSize: number,
+  options: ArchiveOptions,
+  onChunk: ChunkCallback
+): void {
+  validateBlockSize(blockSize);
+  const header = archiveHeader("block", symbols, options);
+  const { m, maxLength, onProgress } = options;
+  const writer = new ArchiveStreamWriter(onChunk);
+  writer.header(header, Math.ceil(symbols.length / blockSize));
+
+  for (let start = 0; start < symbols.length; start += blockSize) {
+    const blockSymbols = symbols.slice(start, start + blockSize);
+    writeStaticBlock(
+      writer,
+      blockSymbols,
+      calculateCodeLengths(calculateFrequencies(blockSymbols), m, maxLength),
+      header,
+      onProgress && ((done) => onProgress(start + done, header.originalLength))
+    );
+  }
+  writer.finish();
+}
+
+function readCodebook(
+  reader: ByteReader,
+  symbolType: SymbolType
+): [string, number][] {
+  const symbolCount = reader.uint32();
+  const codeLengths: [string, number][] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < symbolCount; i++) {
+    const symbolBytes = reader.bytes(reader.uint16());
+    if (symbolType === "bytes" && symbolBytes.length !== 1) {
+      throw new ArchiveError("Byte archive has a codebook entry that is not one byte");
+    }
+    const symbol =
+      symbolType === "bytes"
+        ? byteSymbol(symbolBytes[0])
+        : readUtf8(symbolBytes, "symbol");
+    if (seen.has(symbol)) {
+      throw new ArchiveError(`Archive lists symbol ${JSON.stringify(symbol)} twice`);
+    }
+    seen.add(symbol);
+    codeLengths.push([symbol, reader.uint16()]);
+  }
+  return codeLengths;
+}
+
+export function parseArchive(data: Uint8Array): CompressedArchive {
+  if (
+    data.length < ARCHIVE_MAGIC.length ||
+    ARCHIVE_MAGIC.some((byte, i) => data[i] !== byte)
+  ) {
+    throw new ArchiveError("File is not an M-ary Huffman archive");
+  }
+  if (data.length < ARCHIVE_MAGIC.length + 4) {
+    throw new ArchiveError("Archive is truncated");
+  }
+
+  const body = data.subarray(0, data.length - 4);
+  const storedCrc = new DataView(
+    data.buffer,
+    data.byteOffset + body.length,
+    4
+  ).getUint32(0, true);
+  if (crc32(body) !== storedCrc) {
+    throw new ArchiveError("Archive is corrupted or truncated (CRC-32 mismatch)");
+  }
+
+  const reader = new ByteReader(body);
+  reader.bytes(ARCHIVE_MAGIC.length);
+
+  const version = reader.uint8();
+  if (version !== ARCHIVE_VERSION) {
+    throw new ArchiveError(
+      `Unsupported archive version ${version} (expected ${ARCHIVE_VERSION})`
+    );
+  }
+  const mValue = reader.uint8();
+  // Exactly the range the writer accepts
+  if (mValue < MIN_BRANCHING_FACTOR || mValue > MAX_BRANCHING_FACTOR) {
+    throw new ArchiveError(`Archive has an invalid M value ${mValue}`);
+  }
+  const symbolTypeId = reader.uint8();
+  if (symbolTypeId > 1) {
+    throw new ArchiveError(`Archive has an unknown symbol type ${symbolTypeId}`);
+  }
+  const symbolType: SymbolType = symbolTypeId === 1 ? "bytes" : "text";
+  const symbolModelId = reader.uint8();
+  const symbolModel = SYMBOL_MODEL_IDS[symbolModelId];
+  if (!symbolModel || (symbolType === "bytes" && symbolModel !== "char")) {
+    throw new ArchiveError(`Archive has an unknown symbol model ${symbolModelId}`);
+  }
+  const codingId = reader.uint8();
+  const coding = ARCHIVE_CODINGS[codingId];
+  if (!coding) {
+    throw new ArchiveError(`Archive has an unknown coding ${codingId}`);
+  }
+  const originalLength = reader.uint32();
+  const originalFileName = readUtf8(reader.bytes(reader.uint16()), "file name");
+
+  const blockCount = reader.uint32();
+  if (coding !== "block" && blockCount !== 1) {
+    throw new ArchiveError(`A ${coding} archive must have exactly one block`);
+  }
+  const blocks: ArchiveBlock[] = [];
+  let totalSymbols = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const symbolCount = reader.uint32();
+    const codeLengths = readCodebook(reader, symbolType);
+    if (coding === "adaptive" && codeLengths.length !== 0) {
+      throw new ArchiveError("Adaptive archive must not carry a codebook");
+    }
+    const digitCount = reader.uint32();
+    blocks.push({
+      symbolCount,
+      codeLengths,
+      encodedData: readPackedDigits(reader, digitCount, mValue),
+    });
+    totalSymbols += symbolCount;
+  }
+  if (totalSymbols !== originalLength) {
+    throw new ArchiveError(
+      `Archive blocks hold ${totalSymbols} symbols but the header says ${originalLength}`
+    );
+  }
+  if (reader.remaining !== 0) {
+    throw new ArchiveError("Archive has unexpected trailing data");
+  }
+
+  return {
+    version,
+    mValue,
+    symbolType,
+    symbolModel,
+    coding,
+    originalFileName,
+    originalLength,
+    blocks,
+  };
+}
+
+// Hands the block's symbols on in chunks as they are decoded
+function decodeBlock(
+  archive: CompressedArchive,
+  block: ArchiveBlock,
+  onSymbols: (symbols: string[]) => void,
+  onProgress?: (digitsDone: number) => void
+): void {
+  const { mValue, coding } = archive;
+  let decoded: number;
+  try {
+    if (coding === "adaptive") {
+      const symbols = decodeAdaptive(
+        block.encodedData,
+        block.symbolCount,
+        mValue,
+        literalKindFor(archive.symbolType, archive.symbolModel),
+        // Approximate digit progress from the share of symbols decoded
+        onProgress &&
+          ((done) =>
+            onProgress(Math.floor((done / block.symbolCount) * block.encodedData.length)))
+      );
+      for (let start = 0; start < symbols.length; start += CHUNK_SYMBOLS) {
+        onSymbols(symbols.slice(start, start + CHUNK_SYMBOLS));
+      }
+      decoded = symbols.length;
+    } else {
+      decoded = decodeDigitStream(
+        block.encodedData,
+        canonicalCodes(block.codeLengths, mValue),
+        mValue,
+        onSymbols,
+        onProgress
+      );
+    }
+  } catch (error) {
+    if (error instanceof DecodeError) throw new ArchiveError(error.message);
+    throw error;
+  }
+
+  if (decoded !== block.symbolCount) {
+    throw new ArchiveError(
+      `Decoded ${decoded} symbols but the archive expects ${block.symbolCount}`
+    );
+  }
+}
+
+// Progress is reported in encoded digits
+function decodeSymbols(
+  archive: CompressedArchive,
+  onSymbols: (symbols: string[]) => void,
+  onProgress?: ProgressCallback
+): void {
+  const totalDigits = archive.blocks.reduce(
+    (sum, block) => sum + block.encodedData.length,
+    0
+  );
+  let digitsBefore = 0;
+
+  for (const block of archive.blocks) {
+    const offset = digitsBefore;
+    decodeBlock(
+      archive,
+      block,
+      onSymbols,
+      onProgress && ((done) => onProgress(offset + done, totalDigits))
+    );
+    digitsBefore += block.encodedData.length;
+    onProgress?.(digitsBefore, totalDigits);
+  }
+}
+
+export function decodeArchive(
+  archive: CompressedArchive,
+  onProgress?: ProgressCallback
+): string {
+  const parts: string[] = [];
+  decodeSymbols(archive, (symbols) => parts.push(symbols.join("")), onProgress);
+  return parts.join("");
+}
+
+// The original file contents in chunks, as they are decoded: UTF-8 for text
+// archives, raw bytes otherwise. Chunks end on whole symbols, so each one
+// encodes on its own.
+export function decodeArchiveChunks(
+  archive: CompressedArchive,
+  onChunk: ChunkCallback,
+  onProgress?: ProgressCallback
+): void {
+  decodeSymbols(
+    archive,
+    (symbols) => {
+      const text = symbols.join("");
+      onChunk(archive.symbolType === "bytes" ? symbolsToBytes(text) : textEncoder.encode(text));
+    },
+    onProgress
+  );
+}
+
+export function decodeArchiveToBytes(
+  archive: CompressedArchive,
+  onProgress?: ProgressCallback
+): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  decodeArchiveChunks(archive, (chunk) => chunks.push(chunk), onProgress);
+  return concatChunks(chunks);
+}
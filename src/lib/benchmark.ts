@@ -0,0 +1,122 @@
+import { generateCanonicalCodes, treeCodeLengths } from "./canonical";
+import {
+  Codeword,
+  calculateFrequencies,
+  encodeText,
+  generateCodes,
+  generateMaryTree,
+} from "./huffman";
+import { seededRandom } from "./random";
+
+export interface BenchmarkOptions {
+  alphabetSize: number;
+  symbolCount: number;
+  m: number;
+}
+
+export interface BenchmarkTiming {
+  label: string;
+  ms: number;
+  // Items processed by the step, for a throughput figure
+  items?: number;
+  unit?: string;
+}
+
+export interface BenchmarkResult {
+  options: BenchmarkOptions;
+  distinctSymbols: number;
+  inputBytes: number;
+  digits: number;
+  timings: BenchmarkTiming[];
+}
+
+export const MAX_BENCHMARK_ALPHABET = 60000;
+
+// CJK ideographs make a realistic large alphabet: one character per symbol
+export function generateAlphabet(size: number): string[] {
+  const alphabet: string[] = [];
+  const blocks: [number, number][] = [
+    [0x4e00, 0x9fff],
+    [0x20000, 0x2a6df],
+  ];
+  for (const [from, to] of blocks) {
+    for (let codePoint = from; codePoint <= to && alphabet.length < size; codePoint++) {
+      alphabet.push(String.fromCodePoint(codePoint));
+    }
+  }
+  return alphabet;
+}
+
+// Zipf-distributed text (weight of the k-th symbol is 1/k), like word or
+// character frequencies in natural language
+export function generateZipfText(
+  alphabet: string[],
+  count: number,
+  seed = 1
+): string {
+  const cumulative = new Float64Array(alphabet.length);
+  let total = 0;
+  for (let k = 0; k < alphabet.length; k++) {
+    total += 1 / (k + 1);
+    cumulative[k] = total;
+  }
+
+  const random = seededRandom(seed);
+  const parts: string[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const target = random() * total;
+    let lo = 0;
+    let hi = alphabet.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+    parts[i] = alphabet[lo];
+  }
+  return parts.join("");
+}
+
+function time<T>(run: () => T): [T, number] {
+  const start = performance.now();
+  const value = run();
+  return [value, performance.now() - start];
+}
+
+export function runBenchmark(options: BenchmarkOptions): BenchmarkResult {
+  const { alphabetSize, symbolCount, m } = options;
+  const alphabet = generateAlphabet(Math.min(alphabetSize, MAX_BENCHMARK_ALPHABET));
+  const text = generateZipfText(alphabet, symbolCount);
+  const inputBytes = new TextEncoder().encode(text).length;
+
+  const [frequencies, countMs] = time(() => calculateFrequencies(text));
+  const [root, twoQueueMs] = time(() => generateMaryTree(frequencies, m));
+  const [, heapMs] = time(() =>
+    generateMaryTree(frequencies, m, undefined, "heap")
+  );
+  const [codes, codesMs] = time(() => {
+    const codes = new Map<string, Codeword>();
+    generateCodes(root, [], codes);
+    return codes;
+  });
+  const [, canonicalMs] = time(() =>
+    generateCanonicalCodes(treeCodeLengths(root), m)
+  );
+  const [encoded, encodeMs] = time(() => encodeText(text, codes));
+
+  const symbols = frequencies.size;
+  return {
+    options,
+    distinctSymbols: symbols,
+    inputBytes,
+    digits: encoded.length,
+    timings: [
+      { label: "Count frequencies", ms: countMs, items: symbolCount, unit: "symbols" },
+      { label: "Build tree (two queues)", ms: twoQueueMs, items: symbols, unit: "leaves" },
+      { label: "Build tree (binary heap)", ms: heapMs, items: symbols, unit: "leaves" },
+      { label: "Assign tree codes", ms: codesMs, items: symbols, unit: "codes" },
+      { label: "Assign canonical codes", ms: canonicalMs, items: symbols, unit: "codes" },
+      { label: "Encode", ms: encodeMs, items: symbolCount, unit: "symbols" },
+    ],
+  };
+}
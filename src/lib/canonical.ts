@@ -0,0 +1,141 @@
+import { Codeword, HuffmanTreeNode, generateMaryTree } from "./huffman";
+import { limitedCodeLengths, maxCodeLength } from "./lengthLimited";
+
+export class CanonicalCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CanonicalCodeError";
+  }
+}
+
+function collectLengths(
+  node: HuffmanTreeNode,
+  depth: number,
+  lengths: Map<string, number>
+): void {
+  if (node.children.length === 0) {
+    // Dummy leaves are not part of the source alphabet
+    if (!node.isDummy) lengths.set(node.data, depth);
+    return;
+  }
+  node.children.forEach((child) =>
+    collectLengths(child, depth + 1, lengths)
+  );
+}
+
+// With a maxLength, a Huffman code that is too deep is replaced by the
+// optimal length-limited one
+export function calculateCodeLengths(
+  frequencies: Map<string, number>,
+  m: number,
+  maxLength?: number
+): Map<string, number> {
+  const lengths = treeCodeLengths(generateMaryTree(frequencies, m));
+  if (maxLength === undefined || maxCodeLength(lengths) <= maxLength) {
+    return lengths;
+  }
+  return limitedCodeLengths(frequencies, m, maxLength);
+}
+
+// Leaf depths of an already built tree
+export function treeCodeLengths(root: HuffmanTreeNode | null): Map<string, number> {
+  const lengths = new Map<string, number>();
+  if (!root) return lengths;
+
+  // A lone symbol still needs one digit per occurrence
+  if (root.children.length === 0) {
+    lengths.set(root.data, 1);
+    return lengths;
+  }
+
+  collectLengths(root, 0, lengths);
+  return lengths;
+}
+
+// Canonical order: shorter codewords first, ties broken by code unit order
+// (not localeCompare, so that every decoder agrees regardless of locale)
+export function sortCanonically(
+  lengths: Iterable<[string, number]>
+): [string, number][] {
+  return Array.from(lengths).sort(([a, lenA], [b, lenB]) => {
+    if (lenA !== lenB) return lenA - lenB;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+}
+
+export function generateCanonicalCodes(
+  lengths: Iterable<[string, number]>,
+  m: number
+): Map<string, Codeword> {
+  const codes = new Map<string, Codeword>();
+  const digits: Codeword = [];
+
+  sortCanonically(lengths).forEach(([symbol, length], index) => {
+    if (length < 1) {
+      throw new CanonicalCodeError(
+        `Invalid code length ${length} for symbol ${JSON.stringify(symbol)}`
+      );
+    }
+
+    if (index > 0) {
+      // Next codeword: increment the previous one in base m...
+      let position = digits.length - 1;
+      while (position >= 0 && digits[position] === m - 1) {
+        digits[position] = 0;
+        position--;
+      }
+      if (position < 0) {
+        throw new CanonicalCodeError(
+          "Code lengths violate the Kraft inequality"
+        );
+      }
+      digits[position]++;
+    }
+
+    // ...then extend it with zeros to the new length
+    while (digits.length < length) digits.push(0);
+
+    codes.set(symbol, [...digits]);
+  });
+
+  return codes;
+}
+
+// The tree of a canonical code, for codes that were not built as a tree
+// (length-limited ones). Unused branches become dummy leaves.
+export function canonicalTree(
+  codes: Map<string, Codeword>,
+  frequencies: Map<string, number>,
+  m: number
+): HuffmanTreeNode | null {
+  if (codes.size === 0) return null;
+  if (codes.size === 1) {
+    const [symbol] = codes.keys();
+    return new HuffmanTreeNode(symbol, frequencies.get(symbol) ?? 0);
+  }
+
+  const root = new HuffmanTreeNode("internal", 0);
+  let dummies = 0;
+  const fill = (node: HuffmanTreeNode) => {
+    if (node.children.length === 0) return;
+    for (let digit = 0; digit < m; digit++) {
+      node.children[digit] ??= new HuffmanTreeNode(`z${dummies++}`, 0, true);
+      fill(node.children[digit]);
+    }
+    node.freq = node.children.reduce((sum, child) => sum + child.freq, 0);
+  };
+
+  for (const [symbol, code] of codes) {
+    let node = root;
+    code.slice(0, -1).forEach((digit) => {
+      node.children[digit] ??= new HuffmanTreeNode("internal", 0);
+      node = node.children[digit];
+    });
+    node.children[code[code.length - 1]] = new HuffmanTreeNode(
+      symbol,
+      frequencies.get(symbol) ?? 0
+    );
+  }
+  fill(root);
+  return root;
+}
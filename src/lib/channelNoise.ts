@@ -0,0 +1,330 @@
+import { Codeword } from "./huffman";
+import { seededRandom } from "./random";
+
+// A noisy channel for the encoded digit stream. Optional sync markers let
+// the decoder restart every few symbols, at the cost of extra digits.
+
+export type NoiseKind = "substitution" | "burst" | "indel";
+
+export interface NoiseOptions {
+  kind: NoiseKind;
+  // Chance per digit of a substitution, of a burst starting, or of an
+  // insertion/deletion
+  rate: number;
+  // Digits hit by each burst
+  burstLength: number;
+  seed: number;
+}
+
+export interface ChannelOptions {
+  noise: NoiseOptions;
+  // A sync marker after every this many symbols; null for none
+  syncInterval: number | null;
+}
+
+// A marker is R copies of the top digit m−1 followed by a 0. Data never
+// contains R top digits in a row: after R−1 of them the sender stuffs a 0,
+// which the receiver drops (as HDLC does with 0111 1110 for m = 2).
+export function syncMarkerRun(m: number): number {
+  return Math.max(2, Math.ceil(6 / Math.log2(m)));
+}
+
+export type DigitRole = "data" | "stuff" | "marker";
+
+interface FramedStream {
+  digits: number[];
+  roles: DigitRole[];
+  // Stream positions of each symbol's codeword digits
+  positions: number[][];
+}
+
+function frame(codewords: Codeword[], m: number, syncInterval: number | null): FramedStream {
+  const digits: number[] = [];
+  const roles: DigitRole[] = [];
+  const positions: number[][] = [];
+  const run = syncMarkerRun(m);
+  const top = m - 1;
+  let topCount = 0;
+
+  codewords.forEach((code, index) => {
+    if (syncInterval !== null && index > 0 && index % syncInterval === 0) {
+      for (let i = 0; i < run; i++) digits.push(top);
+      digits.push(0);
+      for (let i = 0; i <= run; i++) roles.push("marker");
+      topCount = 0;
+    }
+
+    const at: number[] = [];
+    for (const digit of code) {
+      at.push(digits.length);
+      digits.push(digit);
+      roles.push("data");
+      if (syncInterval === null) continue;
+      topCount = digit === top ? topCount + 1 : 0;
+      if (topCount === run - 1) {
+        digits.push(0);
+        roles.push("stuff");
+        topCount = 0;
+      }
+    }
+    positions.push(at);
+  });
+  return { digits, roles, positions };
+}
+
+export type DigitDamage = "none" | "substituted" | "inserted";
+
+interface DamagedStream {
+  digits: number[];
+  // Position in the sent stream of each received digit; -1 if inserted
+  source: number[];
+  damage: DigitDamage[];
+  deleted: number;
+  // Channel error events (a burst counts once)
+  errors: number;
+}
+
+function otherDigit(digit: number, m: number, random: () => number): number {
+  return (digit + 1 + Math.floor(random() * (m - 1))) % m;
+}
+
+function corrupt(sent: number[], m: number, noise: NoiseOptions): DamagedStream {
+  const random = seededRandom(noise.seed);
+  const out: DamagedStream = { digits: [], source: [], damage: [], deleted: 0, errors: 0 };
+  const push = (digit: number, source: number, damage: DigitDamage) => {
+    out.digits.push(digit);
+    out.source.push(source);
+    out.damage.push(damage);
+  };
+
+  let burstLeft = 0;
+  sent.forEach((digit, index) => {
+    if (noise.kind === "burst") {
+      if (burstLeft === 0 && random() < noise.rate) {
+        burstLeft = Math.max(1, noise.burstLength);
+        out.errors++;
+      }
+      if (burstLeft > 0) {
+        burstLeft--;
+        push(otherDigit(digit, m, random), index, "substituted");
+      } else {
+        push(digit, index, "none");
+      }
+    } else if (random() >= noise.rate) {
+      push(digit, index, "none");
+    } else {
+      out.errors++;
+      if (noise.kind === "substitution") {
+        push(otherDigit(digit, m, random), index, "substituted");
+      } else if (random() < 0.5) {
+        push(Math.floor(random() * m), -1, "inserted");
+        push(digit, index, "none");
+      } else {
+        out.deleted++;
+      }
+    }
+  });
+  return out;
+}
+
+export interface ReceivedSymbol {
+  // null for digits that form no codeword (a dummy branch, or a codeword
+  // cut off by a marker or the end of the stream)
+  symbol: string | null;
+  // Received-stream positions of its digits
+  positions: number[];
+  // Decoded from exactly the digits that were sent for this symbol
+  correct: boolean;
+}
+
+export interface SentSymbol {
+  symbol: string;
+  positions: number[];
+  recovered: boolean;
+}
+
+export interface ChannelRun {
+  sent: SentSymbol[];
+  // Digits on the wire and what each one is
+  sentDigits: number;
+  roles: DigitRole[];
+  received: { digit: number; role: DigitRole | null; damage: DigitDamage }[];
+  deleted: number;
+  errors: number;
+  // Marker and stuffing digits
+  overhead: number;
+  decoded: ReceivedSymbol[];
+  lost: number;
+  garbled: number;
+  // Length of each run of garbled output, i.e. how many symbols the
+  // decoder emitted before it was back in step
+  episodes: number[];
+  // The last run of garbled output ended before the stream did
+  resynchronized: boolean;
+  // Digits where a stuffed 0 was due but something else arrived; they are
+  // kept as data
+  framingErrors: number;
+}
+
+interface TrieNode {
+  symbol?: string;
+  children: Map<number, TrieNode>;
+}
+
+function buildTrie(codes: Map<string, Codeword>): TrieNode {
+  const root: TrieNode = { children: new Map() };
+  for (const [symbol, code] of codes) {
+    let node = root;
+    for (const digit of code) {
+      let child = node.children.get(digit);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(digit, child);
+      }
+      node = child;
+    }
+    node.symbol = symbol;
+  }
+  return root;
+}
+
+interface Deframed {
+  // Payload positions of each segment
+  segments: number[][];
+  framingErrors: number;
+}
+
+// Splits the received stream at markers and drops stuffed digits
+function deframe(digits: number[], m: number, framed: boolean): Deframed {
+  if (!framed) return { segments: [digits.map((_, i) => i)], framingErrors: 0 };
+
+  const run = syncMarkerRun(m);
+  const top = m - 1;
+  const segments: number[][] = [];
+  let segment: number[] = [];
+  // Positions of the current run of top digits, until it is known whether
+  // the run is data, data before stuffing, or ends in a marker
+  let tops: number[] = [];
+  let framingErrors = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    if (digits[i] === top) {
+      tops.push(i);
+      continue;
+    }
+    if (tops.length >= run) {
+      // A marker is the last R top digits plus this (terminating) digit
+      segment.push(...tops.slice(0, tops.length - run));
+      segments.push(segment);
+      segment = [];
+    } else if (tops.length === run - 1 && digits[i] === 0) {
+      // This digit was stuffed
+      segment.push(...tops);
+    } else {
+      // The sender only stuffs 0s, so anything else here was damaged
+      if (tops.length === run - 1) framingErrors++;
+      segment.push(...tops, i);
+    }
+    tops = [];
+  }
+  segment.push(...tops.slice(0, tops.length >= run ? tops.length - run : tops.length));
+  segments.push(segment);
+  return { segments, framingErrors };
+}
+
+export function simulateChannel(
+  symbols: string[],
+  codes: Map<string, Codeword>,
+  m: number,
+  { noise, syncInterval }: ChannelOptions
+): ChannelRun {
+  const stream = frame(
+    symbols.map((symbol) => codes.get(symbol) ?? []),
+    m,
+    syncInterval
+  );
+  const damaged = corrupt(stream.digits, m, noise);
+
+  // Which sent symbol starts at each sent position
+  const startsAt = new Map<number, number>();
+  stream.positions.forEach((at, index) => {
+    if (at.length > 0) startsAt.set(at[0], index);
+  });
+  const sent: SentSymbol[] = symbols.map((symbol, index) => ({
+    symbol,
+    positions: stream.positions[index],
+    recovered: false,
+  }));
+
+  const classify = (symbol: string | null, positions: number[]): ReceivedSymbol => {
+    const origin = positions.length > 0 ? startsAt.get(damaged.source[positions[0]]) : undefined;
+    const match = origin !== undefined ? sent[origin] : undefined;
+    const correct =
+      symbol !== null &&
+      match !== undefined &&
+      !match.recovered &&
+      match.symbol === symbol &&
+      match.positions.length === positions.length &&
+      positions.every(
+        (position, i) =>
+          damaged.damage[position] === "none" &&
+          damaged.source[position] === match.positions[i]
+      );
+    if (correct) match.recovered = true;
+    return { symbol, positions, correct };
+  };
+
+  // Decode each segment from the root, as a decoder restarting at markers
+  const trie = buildTrie(codes);
+  const decoded: ReceivedSymbol[] = [];
+  const { segments, framingErrors } = deframe(damaged.digits, m, syncInterval !== null);
+  for (const segment of segments) {
+    let node = trie;
+    let positions: number[] = [];
+    for (const position of segment) {
+      positions.push(position);
+      const next = node.children.get(damaged.digits[position]);
+      if (!next || next.symbol !== undefined) {
+        decoded.push(classify(next?.symbol ?? null, positions));
+        node = trie;
+        positions = [];
+      } else {
+        node = next;
+      }
+    }
+    if (positions.length > 0) decoded.push(classify(null, positions));
+  }
+
+  const episodes: number[] = [];
+  let garbledRun = 0;
+  for (const symbol of decoded) {
+    if (symbol.correct) {
+      if (garbledRun > 0) episodes.push(garbledRun);
+      garbledRun = 0;
+    } else {
+      garbledRun++;
+    }
+  }
+  if (garbledRun > 0) episodes.push(garbledRun);
+
+  const garbled = decoded.filter((symbol) => !symbol.correct).length;
+  return {
+    sent,
+    sentDigits: stream.digits.length,
+    roles: stream.roles,
+    received: damaged.digits.map((digit, i) => ({
+      digit,
+      role: damaged.source[i] >= 0 ? stream.roles[damaged.source[i]] : null,
+      damage: damaged.damage[i],
+    })),
+    deleted: damaged.deleted,
+    errors: damaged.errors,
+    overhead: stream.roles.filter((role) => role !== "data").length,
+    decoded,
+    lost: sent.filter((symbol) => !symbol.recovered).length,
+    garbled,
+    episodes,
+    resynchronized: garbledRun === 0,
+    framingErrors,
+  };
+}
@@ -0,0 +1,349 @@
+import { MAX_BRANCHING_FACTOR, MIN_BRANCHING_FACTOR } from "./alphabet";
+import {
+  ArchiveCoding,
+  ArchiveOptions,
+  ChunkCallback,
+  CompressedArchive,
+  DEFAULT_BLOCK_SIZE,
+  ProgressCallback,
+  concatChunks,
+  createAdaptiveArchive,
+  createArchive,
+  createBlockArchive,
+  decodeArchiveChunks,
+  parseArchive,
+  writeAdaptiveArchive,
+  writeArchive,
+  writeBlockArchive,
+} from "./archive";
+import {
+  calculateCodeLengths,
+  canonicalTree,
+  generateCanonicalCodes,
+  treeCodeLengths,
+} from "./canonical";
+import {
+  Codeword,
+  HuffmanTreeNode,
+  calculateByteFrequencies,
+  calculateFrequencies,
+  decodeDigits,
+  encodeText,
+  generateCodes,
+  generateMaryTree,
+} from "./huffman";
+import { limitedCodeLengths, maxCodeLength, validateMaxLength } from "./lengthLimited";
+import { TieBreak } from "./priorityQueue";
+import { SymbolModel, tokenize } from "./symbolModels";
+import { SymbolType, bytesToSymbols } from "./symbols";
+
+export type CodeMode = "tree" | "canonical";
+
+export interface EncodeOptions {
+  m: number;
+  // How text is split into symbols; byte input always uses one per byte
+  model?: SymbolModel;
+  // Which codebook produces `encoded`; archives are always canonical
+  codeMode?: CodeMode;
+  // Longest codeword allowed, in digits; unlimited when omitted
+  maxLength?: number;
+  // Which of the equally good Huffman trees to build
+  tieBreak?: TieBreak;
+}
+
+export interface EncodingResult {
+  m: number;
+  codeMode: CodeMode;
+  symbolType: SymbolType;
+  model: SymbolModel;
+  // The input as symbols: a string of one code unit per byte in byte mode,
+  // otherwise the tokens of the chosen model
+  symbols: string | string[];
+  originalBytes: number;
+  frequencies: Map<string, number>;
+  root: HuffmanTreeNode | null;
+  treeCodes: Map<string, Codeword>;
+  canonicalCodes: Map<string, Codeword>;
+  codeLengths: Map<string, number>;
+  maxLength?: number;
+  // Lengths of the plain Huffman code; they differ from codeLengths only
+  // when maxLength forced a shallower code
+  huffmanCodeLengths: Map<string, number>;
+  encoded: Uint8Array;
+}
+
+export interface DecompressedFile {
+  fileName: string;
+  symbolType: SymbolType;
+  model: SymbolModel;
+  coding: ArchiveCoding;
+  m: number;
+  data: Uint8Array;
+  archive: CompressedArchive;
+}
+
+// What decompressChunks reports once every chunk of the file is out
+export type DecompressedInfo = Omit<DecompressedFile, "data" | "archive">;
+
+const textEncoder = new TextEncoder();
+
+export function validateBranchingFactor(m: number): void {
+  if (!Number.isInteger(m) || m < MIN_BRANCHING_FACTOR || m > MAX_BRANCHING_FACTOR) {
+    throw new RangeError(
+      `m must be an integer from ${MIN_BRANCHING_FACTOR} to ${MAX_BRANCHING_FACTOR}, got ${m}`
+    );
+  }
+}
+
+export function buildTree(
+  frequencies: Map<string, number>,
+  m: number
+): HuffmanTreeNode | null {
+  validateBranchingFactor(m);
+  return generateMaryTree(frequencies, m);
+}
+
+// Text input is split by the symbol model, Uint8Array input per byte
+function toSymbols(input: string | Uint8Array, model: SymbolModel) {
+  if (typeof input === "string") {
+    const symbols = tokenize(input, model);
+    return {
+      symbols,
+      symbolType: "text" as SymbolType,
+      model,
+      frequencies: () => calculateFrequencies(symbols),
+    };
+  }
+  return {
+    symbols: bytesToSymbols(input),
+    symbolType: "bytes" as SymbolType,
+    model: "char" as SymbolModel,
+    frequencies: () => calculateByteFrequencies(input),
+  };
+}
+
+// The Huffman tree and codebooks for a distribution, length-limited when
+// maxLength asks for it
+function buildCodebooks(
+  frequencies: Map<string, number>,
+  m: number,
+  maxLength: number | undefined,
+  tieBreak: TieBreak
+) {
+  if (maxLength !== undefined) validateMaxLength(maxLength, frequencies.size, m);
+
+  let root = generateMaryTree(frequencies, m, undefined, "twoQueue", tieBreak);
+  const huffmanCodeLengths = treeCodeLengths(root);
+  let codeLengths = huffmanCodeLengths;
+  let canonicalCodes = generateCanonicalCodes(codeLengths, m);
+
+  // A length-limited code has no construction tree of its own, so the
+  // tree shown (and its codes) is the canonical one
+  if (maxLength !== undefined && maxCodeLength(codeLengths) > maxLength) {
+    codeLengths = limitedCodeLengths(frequencies, m, maxLength);
+    canonicalCodes = generateCanonicalCodes(codeLengths, m);
+    root = canonicalTree(canonicalCodes, frequencies, m);
+  }
+
+  const treeCodes = new Map<string, Codeword>();
+  generateCodes(root, [], treeCodes);
+  return { root, treeCodes, canonicalCodes, codeLengths, huffmanCodeLengths };
+}
+
+export function encode(
+  input: string | Uint8Array,
+  { m, codeMode = "tree", model = "char", maxLength, tieBreak = "label" }: EncodeOptions
+): EncodingResult {
+  validateBranchingFactor(m);
+
+  const source = toSymbols(input, model);
+  const { symbols } = source;
+  const frequencies = source.frequencies();
+  const codebooks = buildCodebooks(frequencies, m, maxLength, tieBreak);
+
+  return {
+    m,
+    codeMode,
+    symbolType: source.symbolType,
+    model: source.model,
+    symbols,
+    originalBytes:
+      typeof input === "string" ? textEncoder.encode(input).length : input.length,
+    frequencies,
+    ...codebooks,
+    maxLength,
+    encoded: encodeText(
+      symbols,
+      codeMode === "canonical" ? codebooks.canonicalCodes : codebooks.treeCodes
+    ),
+  };
+}
+
+// Codes for a distribution given directly (counts or probabilities), with
+// no source text: nothing is encoded
+export function encodeDistribution(
+  frequencies: Map<string, number>,
+  { m, codeMode = "tree", maxLength, tieBreak = "label" }: Omit<EncodeOptions, "model">
+): EncodingResult {
+  validateBranchingFactor(m);
+  for (const [symbol, weight] of frequencies) {
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new RangeError(
+        `The weight of ${JSON.stringify(symbol)} must be positive, got ${weight}`
+      );
+    }
+  }
+
+  // Single code points read as characters, anything longer as tokens
+  const model: SymbolModel = Array.from(frequencies.keys()).every(
+    (symbol) => Array.from(symbol).length === 1
+  )
+    ? "char"
+    : "word";
+
+  return {
+    m,
+    codeMode,
+    symbolType: "text",
+    model,
+    symbols: [],
+    originalBytes: 0,
+    frequencies,
+    ...buildCodebooks(frequencies, m, maxLength, tieBreak),
+    maxLength,
+    encoded: new Uint8Array(),
+  };
+}
+
+export function decode(
+  digits: ArrayLike<number>,
+  codes: Map<string, Codeword>,
+  m: number
+): string {
+  return decodeDigits(digits, codes, m).join("");
+}
+
+export interface ArchiveCodingOptions {
+  // Adaptive archives skip the codebook; block archives carry one per block
+  coding?: ArchiveCoding;
+  blockSize?: number;
+  onProgress?: ProgressCallback;
+}
+
+function buildArchive(
+  symbols: string | string[],
+  codeLengths: () => Map<string, number>,
+  options: ArchiveOptions,
+  { coding = "static", blockSize = DEFAULT_BLOCK_SIZE }: ArchiveCodingOptions
+): CompressedArchive {
+  switch (coding) {
+    case "static":
+      return createArchive(symbols, codeLengths(), options);
+    case "adaptive":
+      return createAdaptiveArchive(symbols, options);
+    case "block":
+      return createBlockArchive(symbols, blockSize, options);
+  }
+}
+
+export function createArchiveFromResult(
+  result: EncodingResult,
+  fileName: string,
+  codingOptions: ArchiveCodingOptions = {}
+): CompressedArchive {
+  return buildArchive(
+    result.symbols,
+    () => result.codeLengths,
+    {
+      m: result.m,
+      originalFileName: fileName,
+      symbolType: result.symbolType,
+      symbolModel: result.model,
+      maxLength: result.maxLength,
+      onProgress: codingOptions.onProgress,
+    },
+    codingOptions
+  );
+}
+
+export interface CompressOptions extends ArchiveCodingOptions {
+  m: number;
+  fileName?: string;
+  model?: SymbolModel;
+  maxLength?: number;
+}
+
+// Straight to archive bytes, without the tree-code encoding that encode()
+// also produces for display. The archive is handed to onChunk piece by
+// piece as it is written.
+export function compressChunks(
+  input: string | Uint8Array,
+  { m, fileName = "", model = "char", maxLength, ...codingOptions }: CompressOptions,
+  onChunk: ChunkCallback
+): void {
+  validateBranchingFactor(m);
+  const source = toSymbols(input, model);
+  const options: ArchiveOptions = {
+    m,
+    originalFileName: fileName,
+    symbolType: source.symbolType,
+    symbolModel: source.model,
+    maxLength,
+    onProgress: codingOptions.onProgress,
+  };
+  const { coding = "static", blockSize = DEFAULT_BLOCK_SIZE } = codingOptions;
+  switch (coding) {
+    case "static":
+      return writeArchive(
+        source.symbols,
+        calculateCodeLengths(source.frequencies(), m, maxLength),
+        options,
+        onChunk
+      );
+    case "adaptive":
+      return writeAdaptiveArchive(source.symbols, options, onChunk);
+    case "block":
+      return writeBlockArchive(source.symbols, blockSize, options, onChunk);
+  }
+}
+
+export function compress(input: string | Uint8Array, options: CompressOptions): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  compressChunks(input, options, (chunk) => chunks.push(chunk));
+  return concatChunks(chunks);
+}
+
+function decodeToChunks(
+  archive: CompressedArchive,
+  onChunk: ChunkCallback,
+  onProgress?: ProgressCallback
+): DecompressedInfo {
+  decodeArchiveChunks(archive, onChunk, onProgress);
+  return {
+    fileName: archive.originalFileName,
+    symbolType: archive.symbolType,
+    model: archive.symbolModel,
+    coding: archive.coding,
+    m: archive.mValue,
+  };
+}
+
+// Hands the original file to onChunk as it is decoded; progress is
+// reported in encoded digits
+export function decompressChunks(
+  archiveBytes: Uint8Array,
+  onChunk: ChunkCallback,
+  onProgress?: ProgressCallback
+): DecompressedInfo {
+  return decodeToChunks(parseArchive(archiveBytes), onChunk, onProgress);
+}
+
+export function decompress(
+  archiveBytes: Uint8Array,
+  onProgress?: ProgressCallback
+): DecompressedFile {
+  const archive = parseArchive(archiveBytes);
+  const chunks: Uint8Array[] = [];
+  const info = decodeToChunks(archive, (chunk) => chunks.push(chunk), onProgress);
+  return { ...info, data: concatChunks(chunks), archive };
+}
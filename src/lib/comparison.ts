@@ -0,0 +1,204 @@
+import {
+  TunstallCode,
+  buildTunstallCode,
+  decodeArithmetic,
+  decodeTunstall,
+  encodeArithmetic,
+  encodeTunstall,
+  shannonCodes,
+  shannonFanoCodes,
+} from "./alternativeCoders";
+import { codebookSize } from "./archive";
+import { calculateCodeLengths } from "./canonical";
+import {
+  Codeword,
+  calculateFrequencies,
+  calculateRequiredDummies,
+  decodeDigits,
+  encodeText,
+} from "./huffman";
+import { CodeMetrics, calculateMetrics } from "./metrics";
+import { SYMBOL_MODELS, SymbolModel, tokenize } from "./symbolModels";
+
+export interface BranchingResult {
+  m: number;
+  dummies: number;
+  maxLength: number;
+  metrics: CodeMetrics;
+}
+
+export function compareBranchingFactors(
+  frequencies: Map<string, number>,
+  from: number,
+  to: number
+): BranchingResult[] {
+  const results: BranchingResult[] = [];
+  if (frequencies.size === 0) return results;
+
+  for (let m = from; m <= to; m++) {
+    const lengths = calculateCodeLengths(frequencies, m);
+    results.push({
+      m,
+      dummies:
+        frequencies.size > 1 ? calculateRequiredDummies(frequencies.size, m) : 0,
+      maxLength: Math.max(...lengths.values()),
+      metrics: calculateMetrics(frequencies, lengths, m),
+    });
+  }
+
+  return results;
+}
+
+// The best m is the one whose output takes the fewest equivalent bits;
+// ties go to the smaller alphabet
+export function findBestBranchingFactor(
+  results: BranchingResult[]
+): BranchingResult | null {
+  let best: BranchingResult | null = null;
+  for (const result of results) {
+    if (
+      !best ||
+      result.metrics.equivalentBits < best.metrics.equivalentBits - 1e-9
+    ) {
+      best = result;
+    }
+  }
+  return best;
+}
+
+export interface SymbolModelResult {
+  model: SymbolModel;
+  metrics: CodeMetrics;
+  dataBits: number;
+  codebookBits: number;
+  totalBits: number;
+}
+
+// Same text and m under every symbol model. Bigger alphabets usually need
+// fewer digits but a costlier codebook; totalBits shows which effect wins.
+export function compareSymbolModels(text: string, m: number): SymbolModelResult[] {
+  if (text === "") return [];
+
+  return SYMBOL_MODELS.map(({ id }) => {
+    const frequencies = calculateFrequencies(tokenize(text, id));
+    const lengths = calculateCodeLengths(frequencies, m);
+    const metrics = calculateMetrics(frequencies, lengths, m);
+    const codebookBits = codebookSize(lengths, "text") * 8;
+    return {
+      model: id,
+      metrics,
+      dataBits: metrics.equivalentBits,
+      codebookBits,
+      totalBits: metrics.equivalentBits + codebookBits,
+    };
+  });
+}
+
+export type CoderId = "huffman" | "shannon" | "shannonFano" | "tunstall" | "arithmetic";
+
+export const CODER_NAMES: Record<CoderId, string> = {
+  huffman: "Huffman",
+  shannon: "Shannon",
+  shannonFano: "Shannon–Fano",
+  tunstall: "Tunstall",
+  arithmetic: "Arithmetic",
+};
+
+export interface CoderResult {
+  coder: CoderId;
+  // Per-symbol codewords, for the prefix codes
+  codes: Map<string, Codeword> | null;
+  // Source words and their fixed-length codewords, for Tunstall
+  dictionary: TunstallCode["words"] | null;
+  totalDigits: number;
+  // Digits per input symbol, from the actual output
+  averageLength: number;
+  equivalentBits: number;
+  efficiency: number;
+  // Decoding the output gave back the input
+  roundTrip: boolean;
+}
+
+function sameSymbols(a: ArrayLike<string>, b: ArrayLike<string>): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// Round trips that throw count as failures
+function roundTrips(input: string[], decode: () => string[]): boolean {
+  try {
+    return sameSymbols(input, decode());
+  } catch {
+    return false;
+  }
+}
+
+// Huffman and the alternative coders on the same input, frequencies and m.
+// `huffmanCodes` are the codes the visualizer shows, so a length limit or
+// canonical mode carries over to the Huffman row.
+export function compareCoders(
+  symbols: Iterable<string>,
+  frequencies: Map<string, number>,
+  m: number,
+  huffmanCodes: Map<string, Codeword>
+): CoderResult[] {
+  if (frequencies.size === 0) return [];
+  const input = Array.from(symbols);
+  const bitsPerDigit = Math.log2(m);
+  const { entropy } = calculateMetrics(frequencies, new Map(), m);
+
+  const result = (
+    coder: CoderId,
+    output: ArrayLike<number>,
+    roundTrip: boolean,
+    codes: Map<string, Codeword> | null = null,
+    dictionary: TunstallCode["words"] | null = null
+  ): CoderResult => {
+    const averageLength = input.length > 0 ? output.length / input.length : 0;
+    return {
+      coder,
+      codes,
+      dictionary,
+      totalDigits: output.length,
+      averageLength,
+      equivalentBits: output.length * bitsPerDigit,
+      efficiency: averageLength > 0 ? entropy / averageLength : 0,
+      roundTrip,
+    };
+  };
+
+  const prefixCode = (coder: CoderId, codes: Map<string, Codeword>) => {
+    const output = encodeText(input, codes);
+    return result(
+      coder,
+      output,
+      roundTrips(input, () => decodeDigits(output, codes, m)),
+      codes
+    );
+  };
+
+  const tunstall = buildTunstallCode(frequencies, m);
+  const tunstallOutput = encodeTunstall(input, tunstall);
+  const arithmeticOutput = encodeArithmetic(input, frequencies, m);
+
+  return [
+    prefixCode("huffman", huffmanCodes),
+    prefixCode("shannon", shannonCodes(frequencies, m)),
+    prefixCode("shannonFano", shannonFanoCodes(frequencies, m)),
+    result(
+      "tunstall",
+      tunstallOutput,
+      roundTrips(input, () => decodeTunstall(tunstallOutput, input.length, tunstall, m)),
+      null,
+      tunstall.words
+    ),
+    result(
+      "arithmetic",
+      arithmeticOutput,
+      roundTrips(input, () =>
+        decodeArithmetic(arithmeticOutput, input.length, frequencies, m)
+      )
+    ),
+  ];
+}
@@ -0,0 +1,154 @@
+import {
+  ConstructionEvent,
+  HuffmanTreeNode,
+  calculateRequiredDummies,
+  generateMaryTree,
+} from "./huffman";
+import { TieBreak } from "./priorityQueue";
+import { displaySymbol } from "./symbols";
+import { formatWeight } from "./weightTable";
+
+export interface QueueEntry {
+  id: number;
+  label: string;
+  freq: number;
+  kind: "leaf" | "dummy" | "internal";
+}
+
+export interface ConstructionStep {
+  kind: "leaves" | "dummies" | "merge" | "done";
+  title: string;
+  description: string;
+  queueBefore: QueueEntry[];
+  queueAfter: QueueEntry[];
+  // Ids highlighted in queueBefore (dequeued) and queueAfter (enqueued)
+  dequeued: number[];
+  enqueued: number[];
+}
+
+export function describeDummyArithmetic(symbolCount: number, m: number): string {
+  const remainder = (symbolCount - 1) % (m - 1);
+  const dummies = calculateRequiredDummies(symbolCount, m);
+  const arithmetic = `(n − 1) mod (m − 1) = (${symbolCount} − 1) mod (${m} − 1) = ${remainder}`;
+
+  if (dummies === 0) {
+    return `${arithmetic}, so every merge can take exactly ${m} nodes and no dummy nodes are needed.`;
+  }
+  return (
+    `${arithmetic} ≠ 0, so ${m} − 1 − ${remainder} = ${dummies} dummy node` +
+    `${dummies === 1 ? "" : "s"} of frequency 0 ${dummies === 1 ? "is" : "are"} added. ` +
+    `Dummies sort to the front of the queue and are absorbed by the first merge, ` +
+    `keeping the deepest level full so no shorter codeword is wasted.`
+  );
+}
+
+export function recordConstruction(
+  frequencies: Map<string, number>,
+  m: number,
+  hexSymbols = false,
+  tieBreak: TieBreak = "label"
+): ConstructionStep[] {
+  const ids = new Map<HuffmanTreeNode, QueueEntry>();
+  const dummies = new Set<HuffmanTreeNode>();
+  let internalCount = 0;
+
+  const entry = (node: HuffmanTreeNode): QueueEntry => {
+    let existing = ids.get(node);
+    if (!existing) {
+      const kind = dummies.has(node)
+        ? "dummy"
+        : node.children.length > 0
+          ? "internal"
+          : "leaf";
+      existing = {
+        id: ids.size,
+        label:
+          kind === "internal"
+            ? `N${++internalCount}`
+            : displaySymbol(node.data, hexSymbols),
+        freq: node.freq,
+        kind,
+      };
+      ids.set(node, existing);
+    }
+    return existing;
+  };
+  const snapshot = (queue: HuffmanTreeNode[]) => queue.map(entry);
+
+  const steps: ConstructionStep[] = [];
+  const onStep = (event: ConstructionEvent) => {
+    switch (event.type) {
+      case "leaves": {
+        const queue = snapshot(event.queue);
+        steps.push({
+          kind: "leaves",
+          title: "Create leaf nodes",
+          description:
+            `Each of the ${queue.length} distinct symbols becomes a leaf, ` +
+            `and the priority queue orders them by frequency (ties by symbol).`,
+          queueBefore: [],
+          queueAfter: queue,
+          dequeued: [],
+          enqueued: queue.map((node) => node.id),
+        });
+        break;
+      }
+      case "dummies": {
+        event.added.forEach((node) => dummies.add(node));
+        const previous = steps[steps.length - 1].queueAfter;
+        const added = event.added.map(entry);
+        steps.push({
+          kind: "dummies",
+          title:
+            added.length > 0
+              ? `Insert ${added.length} dummy node${added.length === 1 ? "" : "s"}`
+              : "Check for dummy nodes",
+          description: describeDummyArithmetic(event.symbolCount, m),
+          queueBefore: previous,
+          queueAfter: snapshot(event.queue),
+          dequeued: [],
+          enqueued: added.map((node) => node.id),
+        });
+        break;
+      }
+      case "merge": {
+        const queueBefore = snapshot(event.queueBefore);
+        const merged = event.merged.map(entry);
+        const parent = entry(event.parent);
+        steps.push({
+          kind: "merge",
+          title: `Merge ${merged.length} nodes into ${parent.label}`,
+          description:
+            `Dequeue the ${merged.length} lowest-frequency nodes ` +
+            `(${merged.map((node) => `${node.label}:${formatWeight(node.freq)}`).join(", ")}) ` +
+            `and enqueue ${parent.label} with frequency ` +
+            `${merged.map((node) => formatWeight(node.freq)).join(" + ")} = ${formatWeight(parent.freq)}. ` +
+            `Child i of ${parent.label} is reached with digit i.`,
+          queueBefore,
+          queueAfter: snapshot(event.queueAfter),
+          dequeued: merged.map((node) => node.id),
+          enqueued: [parent.id],
+        });
+        break;
+      }
+    }
+  };
+
+  const root = generateMaryTree(frequencies, m, onStep, "twoQueue", tieBreak);
+  if (root) {
+    const last = entry(root);
+    steps.push({
+      kind: "done",
+      title: "Tree complete",
+      description:
+        `Only ${last.label} (frequency ${formatWeight(last.freq)}) is left in the queue; ` +
+        `it becomes the root of the ${m}-ary Huffman tree.`,
+      queueBefore: [last],
+      queueAfter: [],
+      dequeued: [last.id],
+      enqueued: [],
+    });
+  }
+
+  return steps;
+}
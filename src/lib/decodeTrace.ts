@@ -0,0 +1,74 @@
+import { Codeword, HuffmanTreeNode } from "./huffman";
+
+// Links the input, the encoded stream and the tree for the decode trace
+
+export interface SymbolSegment {
+  symbol: string;
+  // Position of the codeword in the encoded digits
+  start: number;
+  code: Codeword;
+}
+
+export interface DecodeStep {
+  digit: number;
+  // Index of the digit in the stream
+  position: number;
+  // Branches taken from the root so far, including this digit
+  path: Codeword;
+  node: HuffmanTreeNode;
+  // Which segment (input symbol) the digit belongs to
+  symbolIndex: number;
+  // The symbol emitted when this digit reaches a leaf; the next digit
+  // starts again from the root
+  completed: string | null;
+}
+
+export function segmentSymbols(
+  symbols: Iterable<string>,
+  codes: Map<string, Codeword>,
+  limit: number
+): SymbolSegment[] {
+  const segments: SymbolSegment[] = [];
+  let start = 0;
+  for (const symbol of symbols) {
+    if (segments.length >= limit) break;
+    const code = codes.get(symbol) ?? [];
+    segments.push({ symbol, start, code });
+    start += code.length;
+  }
+  return segments;
+}
+
+// Walks the tree digit by digit, as the decoder does, for the digits that
+// make up the given segments
+export function traceDecode(
+  root: HuffmanTreeNode | null,
+  digits: ArrayLike<number>,
+  segments: SymbolSegment[]
+): DecodeStep[] {
+  const steps: DecodeStep[] = [];
+  if (!root || segments.length === 0) return steps;
+  const last = segments[segments.length - 1];
+  const end = Math.min(digits.length, last.start + last.code.length);
+
+  let node = root;
+  let path: Codeword = [];
+  let symbolIndex = 0;
+  for (let position = 0; position < end; position++) {
+    const digit = digits[position];
+    // A lone symbol is a root leaf with the one-digit code [0]
+    const next = root.children.length === 0 ? root : node.children[digit];
+    if (!next) break;
+
+    node = next;
+    path = [...path, digit];
+    const completed = node.children.length === 0 ? node.data : null;
+    steps.push({ digit, position, path, node, symbolIndex, completed });
+    if (completed !== null) {
+      node = root;
+      path = [];
+      symbolIndex++;
+    }
+  }
+  return steps;
+}
@@ -0,0 +1,173 @@
+// Packs base-m digit streams into bytes.
+//
+// When m is a power of two every digit maps onto exactly log2(m) bits, so the
+// digits are bit-packed. Otherwise k digits are combined into one 32-bit word
+// (k being the largest count with m^k <= 2^32), which wastes less than a bit
+// per word instead of rounding every digit up to a whole number of bits.
+
+const WORD_LIMIT = 2 ** 32;
+
+function isPowerOfTwo(m: number): boolean {
+  return (m & (m - 1)) === 0;
+}
+
+function bitsPerDigit(m: number): number {
+  return Math.log2(m);
+}
+
+export function digitsPerWord(m: number): number {
+  let count = 0;
+  let value = 1;
+  while (value * m <= WORD_LIMIT) {
+    value *= m;
+    count++;
+  }
+  return count;
+}
+
+// Number of bytes needed to hold any value below m^digitCount
+function bytesForDigits(digitCount: number, m: number): number {
+  let bytes = 0;
+  let capacity = 1;
+  const needed = m ** digitCount;
+  while (capacity < needed) {
+    capacity *= 256;
+    bytes++;
+  }
+  return bytes;
+}
+
+export function packedLength(digitCount: number, m: number): number {
+  if (isPowerOfTwo(m)) {
+    return Math.ceil((digitCount * bitsPerDigit(m)) / 8);
+  }
+
+  const perWord = digitsPerWord(m);
+  const fullWords = Math.floor(digitCount / perWord);
+  const rest = digitCount % perWord;
+  return fullWords * 4 + (rest > 0 ? bytesForDigits(rest, m) : 0);
+}
+
+export function packDigits(digits: ArrayLike<number>, m: number): Uint8Array {
+  const out = new Uint8Array(packedLength(digits.length, m));
+
+  if (isPowerOfTwo(m)) {
+    const bits = bitsPerDigit(m);
+    let acc = 0;
+    let accBits = 0;
+    let pos = 0;
+    for (let i = 0; i < digits.length; i++) {
+      acc |= digits[i] << accBits;
+      accBits += bits;
+      while (accBits >= 8) {
+        out[pos++] = acc & 0xff;
+        acc >>>= 8;
+        accBits -= 8;
+      }
+    }
+    if (accBits > 0) out[pos] = acc & 0xff;
+    return out;
+  }
+
+  const perWord = digitsPerWord(m);
+  let pos = 0;
+  for (let start = 0; start < digits.length; start += perWord) {
+    const end = Math.min(start + perWord, digits.length);
+    // Little-endian in digits: the first digit is the least significant
+    let value = 0;
+    for (let i = end - 1; i >= start; i--) {
+      value = value * m + digits[i];
+    }
+    const byteCount = end - start === perWord ? 4 : bytesForDigits(end - start, m);
+    for (let b = 0; b < byteCount; b++) {
+      out[pos++] = value % 256;
+      value = Math.floor(value / 256);
+    }
+  }
+  return out;
+}
+
+// Packs a digit stream that arrives in pieces. Whole words (whole bytes
+// when m is a power of two) are handed on as soon as they fill, so the
+// output matches packDigits over the complete stream.
+export class DigitPacker {
+  private pending = new Uint8Array(0);
+  private readonly group: number;
+
+  constructor(
+    private readonly m: number,
+    private readonly onBytes: (bytes: Uint8Array) => void
+  ) {
+    // Eight digits of log2(m) bits always end on a byte boundary
+    this.group = isPowerOfTwo(m) ? 8 : digitsPerWord(m);
+  }
+
+  push(digits: Uint8Array) {
+    let all = digits;
+    if (this.pending.length > 0) {
+      all = new Uint8Array(this.pending.length + digits.length);
+      all.set(this.pending);
+      all.set(digits, this.pending.length);
+    }
+    const whole = all.length - (all.length % this.group);
+    if (whole > 0) this.onBytes(packDigits(all.subarray(0, whole), this.m));
+    this.pending = all.slice(whole);
+  }
+
+  flush() {
+    if (this.pending.length > 0) this.onBytes(packDigits(this.pending, this.m));
+    this.pending = new Uint8Array(0);
+  }
+}
+
+export function unpackDigits(
+  bytes: Uint8Array,
+  digitCount: number,
+  m: number
+): Uint8Array {
+  if (bytes.length !== packedLength(digitCount, m)) {
+    throw new RangeError(
+      `Expected ${packedLength(digitCount, m)} packed bytes for ${digitCount} digits, got ${bytes.length}`
+    );
+  }
+
+  const digits = new Uint8Array(digitCount);
+
+  if (isPowerOfTwo(m)) {
+    const bits = bitsPerDigit(m);
+    const mask = m - 1;
+    let acc = 0;
+    let accBits = 0;
+    let pos = 0;
+    for (let i = 0; i < digitCount; i++) {
+      while (accBits < bits) {
+        acc |= bytes[pos++] << accBits;
+        accBits += 8;
+      }
+      digits[i] = acc & mask;
+      acc >>>= bits;
+      accBits -= bits;
+    }
+    return digits;
+  }
+
+  const perWord = digitsPerWord(m);
+  let pos = 0;
+  for (let start = 0; start < digitCount; start += perWord) {
+    const end = Math.min(start + perWord, digitCount);
+    const byteCount = end - start === perWord ? 4 : bytesForDigits(end - start, m);
+    let value = 0;
+    for (let b = byteCount - 1; b >= 0; b--) {
+      value = value * 256 + bytes[pos + b];
+    }
+    pos += byteCount;
+    for (let i = start; i < end; i++) {
+      digits[i] = value % m;
+      value = Math.floor(value / m);
+    }
+    if (value !== 0) {
+      throw new RangeError(`Packed word at byte ${pos - byteCount} is out of range for M = ${m}`);
+    }
+  }
+  return digits;
+}
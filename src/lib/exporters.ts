@@ -0,0 +1,284 @@
+import { formatCodeword } from "./alphabet";
+import { csvField } from "./csv";
+import { Codeword, HuffmanTreeNode } from "./huffman";
+import { CodeMetrics } from "./metrics";
+import { SymbolModel } from "./symbolModels";
+import { SymbolType, displaySymbol } from "./symbols";
+import { MARGIN, NODE_SIZE, X_UNIT, Y_UNIT, layoutTree } from "./treeLayout";
+import { formatWeight } from "./weightTable";
+
+// Text formats for the export menu. All of them are built from the tree and
+// codebook the visualizer is showing, so they match the current input and m.
+
+export interface ExportContext {
+  m: number;
+  symbolType: SymbolType;
+  model: SymbolModel;
+  root: HuffmanTreeNode | null;
+  frequencies: Map<string, number>;
+  codes: Map<string, Codeword>;
+  metrics: CodeMetrics;
+  digitSymbols: string[];
+  hexSymbols: boolean;
+}
+
+export interface CodebookRow {
+  symbol: string;
+  // As shown in the UI: hex for binary data, glyphs for whitespace
+  label: string;
+  frequency: number;
+  probability: number;
+  codeword: string;
+  digits: Codeword;
+}
+
+// Most frequent first, as in the codes listing of the CLI
+export function codebookRows(context: ExportContext): CodebookRow[] {
+  const { frequencies, codes, metrics, digitSymbols, hexSymbols } = context;
+  return Array.from(frequencies)
+    .sort(([a, freqA], [b, freqB]) => freqB - freqA || (a < b ? -1 : a > b ? 1 : 0))
+    .map(([symbol, frequency]) => {
+      const digits = codes.get(symbol) ?? [];
+      return {
+        symbol,
+        label: displaySymbol(symbol, hexSymbols),
+        frequency,
+        probability: metrics.totalSymbols > 0 ? frequency / metrics.totalSymbols : 0,
+        codeword: formatCodeword(digits, digitSymbols),
+        digits,
+      };
+    });
+}
+
+export function codebookToCsv(context: ExportContext): string {
+  const lines = [["symbol", "frequency", "probability", "codeword", "length"].join(",")];
+  for (const row of codebookRows(context)) {
+    lines.push(
+      [
+        context.symbolType === "bytes" ? row.label : row.symbol,
+        row.frequency,
+        row.probability.toFixed(6),
+        row.codeword,
+        row.digits.length,
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function codebookToJson(context: ExportContext): string {
+  const { m, symbolType, model, metrics, digitSymbols } = context;
+  return JSON.stringify(
+    {
+      m,
+      symbolType,
+      symbolModel: model,
+      digitSymbols: digitSymbols.slice(0, m),
+      totalSymbols: metrics.totalSymbols,
+      entropy: metrics.entropy,
+      averageLength: metrics.averageLength,
+      efficiency: metrics.efficiency,
+      codebook: codebookRows(context).map((row) => ({
+        symbol: symbolType === "bytes" ? row.symbol.charCodeAt(0) : row.symbol,
+        frequency: row.frequency,
+        probability: row.probability,
+        codeword: row.codeword,
+        digits: row.digits,
+        length: row.digits.length,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function summaryFigures({ m, metrics }: ExportContext): [string, string][] {
+  return [
+    ["Branching factor m", String(m)],
+    ["Symbols", `${metrics.totalSymbols} (${metrics.distinctSymbols} distinct)`],
+    ["Entropy", `${metrics.entropy.toFixed(4)} digits/symbol`],
+    ["Average length", `${metrics.averageLength.toFixed(4)} digits/symbol`],
+    ["Efficiency", `${(metrics.efficiency * 100).toFixed(2)}%`],
+    ["Total digits", String(metrics.totalDigits)],
+  ];
+}
+
+// Code span for a table cell: backslashes are literal inside code spans, but
+// GFM still splits cells on unescaped pipes
+function markdownCode(text: string): string {
+  const escaped = text.replace(/\|/g, "\\|");
+  return escaped.includes("`") ? `\`\` ${escaped} \`\`` : `\`${escaped}\``;
+}
+
+export function summaryToMarkdown(context: ExportContext): string {
+  const lines = [
+    `## ${context.m}-ary Huffman code`,
+    "",
+    "| Figure | Value |",
+    "| --- | --- |",
+    ...summaryFigures(context).map(([name, value]) => `| ${name} | ${value} |`),
+    "",
+    "| Symbol | Frequency | Probability | Codeword | Length |",
+    "| --- | ---: | ---: | --- | ---: |",
+    ...codebookRows(context).map(
+      (row) =>
+        `| ${markdownCode(row.label)} | ${row.frequency} | ${row.probability.toFixed(4)} | ` +
+        `${markdownCode(row.codeword)} | ${row.digits.length} |`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  $: "\\$",
+  "&": "\\&",
+  "#": "\\#",
+  "^": "\\textasciicircum{}",
+  _: "\\_",
+  "%": "\\%",
+  "~": "\\textasciitilde{}",
+};
+
+function latexText(text: string): string {
+  return text.replace(/[\\{}$&#^_%~]/g, (char) => LATEX_ESCAPES[char]);
+}
+
+export function summaryToLatex(context: ExportContext): string {
+  const { m, metrics } = context;
+  const lines = [
+    "\\begin{table}[ht]",
+    "\\centering",
+    "\\begin{tabular}{lrrlr}",
+    "\\hline",
+    "Symbol & Frequency & Probability & Codeword & Length \\\\",
+    "\\hline",
+    ...codebookRows(context).map(
+      (row) =>
+        `\\texttt{${latexText(row.label)}} & ${row.frequency} & ${row.probability.toFixed(4)} & ` +
+        `\\texttt{${latexText(row.codeword)}} & ${row.digits.length} \\\\`
+    ),
+    "\\hline",
+    "\\end{tabular}",
+    `\\caption{${m}-ary Huffman code for ${metrics.totalSymbols} symbols ` +
+      `(${metrics.distinctSymbols} distinct): entropy $H = ${metrics.entropy.toFixed(4)}$, ` +
+      `average length $\\bar{L} = ${metrics.averageLength.toFixed(4)}$ digits/symbol, ` +
+      `efficiency ${(metrics.efficiency * 100).toFixed(2)}\\%.}`,
+    "\\end{table}",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+export function treeToDot({ root, digitSymbols, hexSymbols }: ExportContext): string {
+  const lines = [
+    "digraph huffman {",
+    '  node [shape=circle, style=filled, fontname="monospace"];',
+    '  edge [fontname="monospace"];',
+  ];
+  if (root) {
+    let next = 0;
+    const visit = (node: HuffmanTreeNode): string => {
+      const id = `n${next++}`;
+      if (node.children.length === 0) {
+        const label = node.isDummy ? "" : `${displaySymbol(node.data, hexSymbols)}\n${formatWeight(node.freq)}`;
+        lines.push(
+          `  ${id} [label=${dotString(label)}, ` +
+            (node.isDummy
+              ? 'fillcolor="#f3f4f6", color="#d1d5db", style="filled,dashed"];'
+              : 'fillcolor="#e0e7ff", color="#6366f1"];')
+        );
+      } else {
+        lines.push(`  ${id} [label=${dotString(formatWeight(node.freq))}, fillcolor="#f3e8ff", color="#a855f7"];`);
+      }
+      node.children.forEach((child, digit) => {
+        const childId = visit(child);
+        lines.push(`  ${id} -> ${childId} [label=${dotString(digitSymbols[digit] ?? String(digit))}];`);
+      });
+      return id;
+    };
+    visit(root);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// Characters XML 1.0 does not allow at all, even escaped: C0 controls
+// other than tab and line breaks, U+FFFE, U+FFFF and lone surrogates
+function isXmlIllegal(code: number): boolean {
+  return (
+    (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) ||
+    code === 0xfffe ||
+    code === 0xffff ||
+    (code >= 0xd800 && code <= 0xdfff)
+  );
+}
+
+// Illegal characters are shown as their code point, e.g. U+000C
+function xmlText(text: string): string {
+  // Iterating by code point keeps surrogate pairs whole
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    return isXmlIllegal(code)
+      ? `U+${code.toString(16).toUpperCase().padStart(4, "0")}`
+      : char;
+  })
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Same geometry and colors as TreeVisualization, with inline styles so the
+// file renders on its own (and in a canvas for PNG export)
+const NODE_RADIUS = NODE_SIZE / 2;
+
+export function treeToSvg({ root, digitSymbols, hexSymbols }: ExportContext): string {
+  const layout = layoutTree(root);
+  const width = (layout.maxX - layout.minX) * X_UNIT + 2 * MARGIN;
+  const height = layout.depth * Y_UNIT + 2 * MARGIN;
+  const px = (x: number) => (x - layout.minX) * X_UNIT + MARGIN;
+  const py = (y: number) => y * Y_UNIT + MARGIN;
+
+  const edges: string[] = [];
+  const nodes: string[] = [];
+  for (const node of layout.nodes) {
+    const x = px(node.x);
+    const y = py(node.y);
+    if (node.parent) {
+      const x1 = px(node.parent.x);
+      const y1 = py(node.parent.y);
+      edges.push(
+        `<line x1="${x1}" y1="${y1 + NODE_RADIUS}" x2="${x}" y2="${y - NODE_RADIUS}" stroke="#818cf8" stroke-width="3" stroke-opacity="0.7"/>`,
+        `<text x="${(x1 + x) / 2}" y="${(y1 + y) / 2}" font-size="20" font-weight="600" fill="#6b7280" stroke="#ffffff" stroke-width="6" paint-order="stroke" text-anchor="middle" dominant-baseline="middle">${xmlText(digitSymbols[node.digit] ?? String(node.digit))}</text>`
+      );
+    }
+
+    const isLeaf = node.node.children.length === 0;
+    const [fill, stroke, text] = !isLeaf
+      ? ["#f3e8ff", "#a855f7", "#9333ea"]
+      : node.node.isDummy
+        ? ["#f3f4f6", "#d1d5db", "#9ca3af"]
+        : ["#e0e7ff", "#6366f1", "#4f46e5"];
+    const label = isLeaf ? displaySymbol(node.node.data, hexSymbols) : formatWeight(node.node.freq);
+    nodes.push(
+      `<circle cx="${x}" cy="${y}" r="${NODE_RADIUS}" fill="${fill}" stroke="${stroke}" stroke-width="3"${node.node.isDummy ? ' stroke-dasharray="6 4"' : ""}/>`,
+      `<text x="${x}" y="${y}" font-size="${label.length > 3 ? 18 : 28}" font-weight="600" fill="${text}" text-anchor="middle" dominant-baseline="middle">${xmlText(label)}</text>`
+    );
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="ui-monospace, Menlo, Consolas, monospace">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...edges,
+    ...nodes,
+    "</svg>",
+  ].join("\n") + "\n";
+}
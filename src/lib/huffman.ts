@@ -0,0 +1,309 @@
+import { PriorityQueue, TieBreak, TwoQueue } from "./priorityQueue";
+import { byteSymbol } from "./symbols";
+
+// A codeword is a sequence of base-m digits, each in [0, m)
+export type Codeword = number[];
+
+export class HuffmanTreeNode {
+  data: string;
+  freq: number;
+  children: HuffmanTreeNode[];
+  // Padding leaf added so that every merge takes exactly m nodes
+  isDummy: boolean;
+
+  constructor(character: string, frequency: number, isDummy = false) {
+    this.data = character;
+    this.freq = frequency;
+    this.children = [];
+    this.isDummy = isDummy;
+  }
+}
+
+// Emitted by generateMaryTree so that callers can replay its construction
+export type ConstructionEvent =
+  | { type: "leaves"; queue: HuffmanTreeNode[] }
+  | {
+      type: "dummies";
+      symbolCount: number;
+      added: HuffmanTreeNode[];
+      queue: HuffmanTreeNode[];
+    }
+  | {
+      type: "merge";
+      queueBefore: HuffmanTreeNode[];
+      merged: HuffmanTreeNode[];
+      parent: HuffmanTreeNode;
+      queueAfter: HuffmanTreeNode[];
+    };
+
+export function calculateRequiredDummies(symbolCount: number, m: number): number {
+  // For m-ary Huffman, we need (n-1) mod (m-1) = 0
+  // where n is the total number of symbols including dummies
+  // No merges happen for zero or one symbol, so nothing needs padding
+  if (symbolCount <= 1) return 0;
+  const remainder = (symbolCount - 1) % (m - 1);
+  if (remainder === 0) return 0;
+  return m - 1 - remainder;
+}
+
+// Accepts a string (one symbol per code point) or a list of tokens
+export function calculateFrequencies(
+  symbols: Iterable<string>
+): Map<string, number> {
+  const freq = new Map<string, number>();
+  for (const symbol of symbols) {
+    freq.set(symbol, (freq.get(symbol) || 0) + 1);
+  }
+  return freq;
+}
+
+// Byte-level counterpart of calculateFrequencies: each of the 256 byte
+// values is a symbol
+export function calculateByteFrequencies(bytes: Uint8Array): Map<string, number> {
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < bytes.length; i++) counts[bytes[i]]++;
+
+  const freq = new Map<string, number>();
+  for (let byte = 0; byte < 256; byte++) {
+    if (counts[byte] > 0) freq.set(byteSymbol(byte), counts[byte]);
+  }
+  return freq;
+}
+
+// "twoQueue" sorts the leaves once and builds the tree in linear time;
+// "heap" keeps every node in a binary heap. Both give the same tree.
+export type QueueStrategy = "twoQueue" | "heap";
+
+export function generateMaryTree(
+  frequencies: Map<string, number>,
+  m: number,
+  onStep?: (event: ConstructionEvent) => void,
+  strategy: QueueStrategy = "twoQueue",
+  tieBreak: TieBreak = "label"
+): HuffmanTreeNode | null {
+  // Create leaf nodes from actual symbols
+  const leaves = Array.from(
+    frequencies,
+    ([char, freq]) => new HuffmanTreeNode(char, freq)
+  );
+
+  if (onStep) {
+    onStep({ type: "leaves", queue: new TwoQueue(leaves, tieBreak).getNodes() });
+  }
+
+  // Handle special cases
+  if (leaves.length === 0) return null;
+  if (leaves.length === 1) return leaves[0];
+
+  // Add dummy nodes if needed
+  const symbolCount = leaves.length;
+  const dummiesNeeded = calculateRequiredDummies(symbolCount, m);
+  const dummies: HuffmanTreeNode[] = [];
+  for (let i = 0; i < dummiesNeeded; i++) {
+    dummies.push(new HuffmanTreeNode(`z${i}`, 0, true));
+  }
+
+  let pq: PriorityQueue | TwoQueue;
+  if (strategy === "heap") {
+    pq = new PriorityQueue(tieBreak);
+    for (const node of leaves) pq.enqueue(node);
+    for (const node of dummies) pq.enqueue(node);
+  } else {
+    pq = new TwoQueue([...leaves, ...dummies], tieBreak);
+  }
+  onStep?.({ type: "dummies", symbolCount, added: dummies, queue: pq.getNodes() });
+
+  // Build the tree
+  while (pq.size > 1) {
+    const queueBefore = onStep ? pq.getNodes() : [];
+    const numNodes = Math.min(m, pq.size);
+    const newNode = new HuffmanTreeNode("internal", 0);
+    let totalFreq = 0;
+
+    // Take exactly m nodes (or all remaining if less than m)
+    for (let i = 0; i < numNodes; i++) {
+      const child = pq.dequeue();
+      if (child) {
+        newNode.children.push(child);
+        totalFreq += child.freq;
+      }
+    }
+
+    newNode.freq = totalFreq;
+    pq.enqueue(newNode);
+
+    onStep?.({
+      type: "merge",
+      queueBefore,
+      merged: [...newNode.children],
+      parent: newNode,
+      queueAfter: pq.getNodes(),
+    });
+  }
+
+  return pq.dequeue()!;
+}
+
+export function generateCodes(
+  node: HuffmanTreeNode | null,
+  currentCode: Codeword,
+  codes: Map<string, Codeword>
+): void {
+  if (!node) return;
+
+  // Leaves carry the symbols; dummy leaves get no codeword. Checking the
+  // flag rather than the label keeps tokens such as "internal" or "z0" safe.
+  if (node.children.length === 0) {
+    // Use digit 0 for single-character input
+    if (!node.isDummy) {
+      codes.set(node.data, currentCode.length > 0 ? currentCode : [0]);
+    }
+    return;
+  }
+
+  // Recursively generate codes for children; child i is reached by digit i
+  node.children.forEach((child, index) => {
+    generateCodes(child, [...currentCode, index], codes);
+  });
+}
+
+// Long loops report progress every this many symbols (or digits)
+export const PROGRESS_INTERVAL = 0x10000;
+
+// Streamed coding hands data over in pieces of this many symbols
+export const CHUNK_SYMBOLS = 0x10000;
+
+// Digits are written into a growing typed array (m <= 64 fits in a byte)
+export function encodeText(
+  symbols: Iterable<string>,
+  codes: Map<string, Codeword>,
+  onProgress?: (symbolsDone: number) => void
+): Uint8Array {
+  let encoded = new Uint8Array(1024);
+  let length = 0;
+  let count = 0;
+  for (const symbol of symbols) {
+    if (onProgress && ++count % PROGRESS_INTERVAL === 0) onProgress(count);
+    const code = codes.get(symbol);
+    if (!code) continue;
+    if (length + code.length > encoded.length) {
+      const grown = new Uint8Array(Math.max(encoded.length * 2, length + code.length));
+      grown.set(encoded);
+      encoded = grown;
+    }
+    for (let i = 0; i < code.length; i++) encoded[length++] = code[i];
+  }
+  return encoded.slice(0, length);
+}
+
+export class DecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+interface DecodingNode {
+  symbol?: string;
+  children: Map<number, DecodingNode>;
+}
+
+function buildDecodingTree(
+  codes: Map<string, Codeword>,
+  m: number
+): DecodingNode {
+  const root: DecodingNode = { children: new Map() };
+
+  for (const [symbol, code] of codes) {
+    if (code.length === 0) {
+      throw new DecodeError(`Empty codeword for symbol ${JSON.stringify(symbol)}`);
+    }
+
+    let node = root;
+    for (const digit of code) {
+      if (!Number.isInteger(digit) || digit < 0 || digit >= m) {
+        throw new DecodeError(
+          `Codeword [${code.join(", ")}] contains digit ${digit}, which is invalid for M = ${m}`
+        );
+      }
+      if (node.symbol !== undefined) {
+        throw new DecodeError(`Codebook is not prefix-free (at [${code.join(", ")}])`);
+      }
+
+      let child = node.children.get(digit);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(digit, child);
+      }
+      node = child;
+    }
+
+    if (node.symbol !== undefined || node.children.size > 0) {
+      throw new DecodeError(`Codebook is not prefix-free (at [${code.join(", ")}])`);
+    }
+    node.symbol = symbol;
+  }
+
+  return root;
+}
+
+// Hands decoded symbols over CHUNK_SYMBOLS at a time instead of holding them
+// all; returns how many were decoded
+export function decodeDigitStream(
+  digits: ArrayLike<number>,
+  codes: Map<string, Codeword>,
+  m: number,
+  onSymbols: (symbols: string[]) => void,
+  onProgress?: (digitsDone: number) => void
+): number {
+  const root = buildDecodingTree(codes, m);
+  let symbols: string[] = [];
+  let decoded = 0;
+  let node = root;
+
+  for (let i = 0; i < digits.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i);
+    const next = node.children.get(digits[i]);
+    if (!next) {
+      throw new DecodeError(
+        `Encoded data is corrupted (unexpected digit ${digits[i]} after ${decoded + symbols.length} symbols)`
+      );
+    }
+    if (next.symbol !== undefined) {
+      symbols.push(next.symbol);
+      node = root;
+      if (symbols.length === CHUNK_SYMBOLS) {
+        onSymbols(symbols);
+        decoded += symbols.length;
+        symbols = [];
+      }
+    } else {
+      node = next;
+    }
+  }
+
+  if (node !== root) {
+    throw new DecodeError("Encoded data is truncated (ends inside a codeword)");
+  }
+  if (symbols.length > 0) onSymbols(symbols);
+  return decoded + symbols.length;
+}
+
+export function decodeDigits(
+  digits: ArrayLike<number>,
+  codes: Map<string, Codeword>,
+  m: number,
+  onProgress?: (digitsDone: number) => void
+): string[] {
+  const symbols: string[] = [];
+  decodeDigitStream(
+    digits,
+    codes,
+    m,
+    (chunk) => {
+      for (const symbol of chunk) symbols.push(symbol);
+    },
+    onProgress
+  );
+  return symbols;
+}
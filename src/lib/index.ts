@@ -0,0 +1,13 @@
+// Headless M-ary Huffman coder shared by the web app and the CLI
+export * from "./coder";
+export * from "./huffman";
+export * from "./priorityQueue";
+export * from "./adaptive";
+export * from "./canonical";
+export * from "./lengthLimited";
+export * from "./archive";
+export * from "./metrics";
+export * from "./alphabet";
+export * from "./symbols";
+export * from "./symbolModels";
+export * from "./weightTable";
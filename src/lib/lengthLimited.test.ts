@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { calculateCodeLengths } from "./canonical";
+import {
+  limitedCodeLengths,
+  maxCodeLength,
+  minimumMaxLength,
+  validateMaxLength,
+} from "./lengthLimited";
+import { seededRandom } from "./random";
+
+function cost(frequencies: Map<string, number>, lengths: Map<string, number>): number {
+  let total = 0;
+  for (const [symbol, freq] of frequencies) total += freq * lengths.get(symbol)!;
+  return total;
+}
+
+// Σ m^−l ≤ 1, scaled by m^L to stay in integers
+function satisfiesKraft(lengths: number[], m: number, maxLength: number): boolean {
+  let sum = 0;
+  for (const length of lengths) sum += m ** (maxLength - length);
+  return sum <= m ** maxLength;
+}
+
+// Cheapest prefix code with every length in 1..maxLength, by trying them all
+function bruteForceCost(weights: number[], m: number, maxLength: number): number {
+  let best = Infinity;
+  const lengths = new Array<number>(weights.length).fill(1);
+  for (;;) {
+    if (satisfiesKraft(lengths, m, maxLength)) {
+      best = Math.min(best, weights.reduce((sum, w, i) => sum + w * lengths[i], 0));
+    }
+    let i = 0;
+    while (i < lengths.length && lengths[i] === maxLength) lengths[i++] = 1;
+    if (i === lengths.length) return best;
+    lengths[i]++;
+  }
+}
+
+function randomFrequencies(count: number, random: () => number): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    // Skewed weights, so that the Huffman code is often deeper than the limit
+    frequencies.set(String.fromCharCode(97 + i), 1 + Math.floor(random() ** 3 * 200));
+  }
+  return frequencies;
+}
+
+describe("limitedCodeLengths", () => {
+  it("matches brute force on small alphabets", () => {
+    const random = seededRandom(1);
+    for (const m of [2, 3, 4]) {
+      for (let count = 2; count <= 6; count++) {
+        for (let trial = 0; trial < 8; trial++) {
+          const frequencies = randomFrequencies(count, random);
+          const weights = Array.from(frequencies.values());
+          const minimum = minimumMaxLength(count, m);
+          for (let maxLength = minimum; maxLength <= minimum + 2; maxLength++) {
+            const lengths = limitedCodeLengths(frequencies, m, maxLength);
+            const label = `m = ${m}, L = ${maxLength}, weights ${weights.join(" ")}`;
+            expect(maxCodeLength(lengths), label).toBeLessThanOrEqual(maxLength);
+            expect(satisfiesKraft(Array.from(lengths.values()), m, maxLength), label).toBe(true);
+            expect(cost(frequencies, lengths), label).toBe(
+              bruteForceCost(weights, m, maxLength)
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it("costs the same as Huffman when the limit is not binding", () => {
+    const random = seededRandom(2);
+    for (const m of [2, 3, 5]) {
+      const frequencies = randomFrequencies(12, random);
+      const huffman = calculateCodeLengths(frequencies, m);
+      const limited = limitedCodeLengths(frequencies, m, maxCodeLength(huffman));
+      expect(cost(frequencies, limited)).toBe(cost(frequencies, huffman));
+    }
+  });
+
+  it("gives a lone symbol one digit", () => {
+    expect(limitedCodeLengths(new Map([["a", 5]]), 3, 1)).toEqual(new Map([["a", 1]]));
+  });
+
+  it("rejects a limit the alphabet does not fit in", () => {
+    expect(() => validateMaxLength(2, 10, 3)).toThrow(RangeError);
+    expect(() => validateMaxLength(0, 1, 2)).toThrow(RangeError);
+    expect(() => validateMaxLength(2, 9, 3)).not.toThrow();
+  });
+});
@@ -0,0 +1,128 @@
+import { calculateRequiredDummies } from "./huffman";
+
+// Optimal length-limited m-ary codes by package-merge.
+//
+// Giving symbol i a codeword of length l is the same as buying one coin of
+// each denomination (m − 1)·m^−j for j = 1..l at price w_i, since those sum
+// to 1 − m^−l. A complete code (padded with zero-weight dummies so that
+// (n − 1) mod (m − 1) = 0) has Σ m^−l = 1, i.e. coins worth n − 1 in total.
+// Package-merge buys them as cheaply as possible: starting from the
+// deepest level, m coins of one denomination are packaged into a coin of
+// the next, merged with that level's own coins, and so on up to level 1.
+
+interface Item {
+  weight: number;
+  // Index into the sorted leaves, or -1 for a package
+  leaf: number;
+  children: Item[];
+}
+
+// Shortest limit that fits n symbols: the smallest L with m^L >= n
+export function minimumMaxLength(symbolCount: number, m: number): number {
+  let length = 1;
+  for (let capacity = m; capacity < symbolCount; capacity *= m) length++;
+  return length;
+}
+
+export function validateMaxLength(
+  maxLength: number,
+  symbolCount: number,
+  m: number
+): void {
+  if (!Number.isInteger(maxLength) || maxLength < 1) {
+    throw new RangeError(
+      `Maximum code length must be a positive integer, got ${maxLength}`
+    );
+  }
+  const minimum = minimumMaxLength(symbolCount, m);
+  if (maxLength < minimum) {
+    throw new RangeError(
+      `${symbolCount} symbols do not fit in codewords of at most ${maxLength} digits ` +
+        `(${m}^${maxLength} < ${symbolCount}); the limit must be at least ${minimum}`
+    );
+  }
+}
+
+export function maxCodeLength(lengths: Map<string, number>): number {
+  let longest = 0;
+  for (const length of lengths.values()) longest = Math.max(longest, length);
+  return longest;
+}
+
+function packages(items: Item[], m: number): Item[] {
+  const packed: Item[] = [];
+  for (let i = 0; i + m <= items.length; i += m) {
+    const children = items.slice(i, i + m);
+    packed.push({
+      weight: children.reduce((sum, item) => sum + item.weight, 0),
+      leaf: -1,
+      children,
+    });
+  }
+  return packed;
+}
+
+// Both lists are sorted by weight; leaves go first on ties
+function merge(leaves: Item[], packed: Item[]): Item[] {
+  const merged: Item[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < leaves.length || j < packed.length) {
+    if (j >= packed.length || (i < leaves.length && leaves[i].weight <= packed[j].weight)) {
+      merged.push(leaves[i++]);
+    } else {
+      merged.push(packed[j++]);
+    }
+  }
+  return merged;
+}
+
+// Minimum-cost code lengths with no codeword longer than maxLength digits
+export function limitedCodeLengths(
+  frequencies: Map<string, number>,
+  m: number,
+  maxLength: number
+): Map<string, number> {
+  const symbols = Array.from(frequencies);
+  validateMaxLength(maxLength, symbols.length, m);
+
+  const lengths = new Map<string, number>();
+  if (symbols.length === 0) return lengths;
+  if (symbols.length === 1) {
+    lengths.set(symbols[0][0], 1);
+    return lengths;
+  }
+
+  // Dummies take part like any other symbol and are dropped at the end
+  const dummies = calculateRequiredDummies(symbols.length, m);
+  const weights = [
+    ...symbols.map(([, freq]) => freq),
+    ...new Array<number>(dummies).fill(0),
+  ];
+  const order = weights
+    .map((_, index) => index)
+    .sort((a, b) => weights[a] - weights[b] || a - b);
+  const leaves: Item[] = order.map((index) => ({
+    weight: weights[index],
+    leaf: index,
+    children: [],
+  }));
+
+  let level = leaves;
+  for (let depth = maxLength; depth > 1; depth--) {
+    level = merge(leaves, packages(level, m));
+  }
+
+  // Coins worth n − 1 at (m − 1)/m each
+  const selected = ((weights.length - 1) / (m - 1)) * m;
+  const counts = new Array<number>(weights.length).fill(0);
+  const stack = level.slice(0, selected);
+  while (stack.length > 0) {
+    const item = stack.pop()!;
+    if (item.leaf >= 0) counts[item.leaf]++;
+    else stack.push(...item.children);
+  }
+
+  symbols.forEach(([symbol], index) => lengths.set(symbol, counts[index]));
+  return lengths;
+}
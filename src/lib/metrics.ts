@@ -0,0 +1,78 @@
+export interface SymbolMetrics {
+  symbol: string;
+  frequency: number;
+  probability: number;
+  codeLength: number;
+  // -log_m(p): the ideal (fractional) codeword length in m-ary digits
+  information: number;
+}
+
+export interface CodeMetrics {
+  m: number;
+  totalSymbols: number;
+  distinctSymbols: number;
+  entropyBits: number;
+  entropy: number;
+  averageLength: number;
+  efficiency: number;
+  redundancy: number;
+  kraftSum: number;
+  totalDigits: number;
+  bitsPerDigit: number;
+  equivalentBits: number;
+  symbols: SymbolMetrics[];
+}
+
+export function calculateMetrics(
+  frequencies: Map<string, number>,
+  codeLengths: Map<string, number>,
+  m: number
+): CodeMetrics {
+  const bitsPerDigit = Math.log2(m);
+  let totalSymbols = 0;
+  for (const freq of frequencies.values()) totalSymbols += freq;
+
+  const symbols: SymbolMetrics[] = [];
+  let entropyBits = 0;
+  let averageLength = 0;
+  let kraftSum = 0;
+  let totalDigits = 0;
+
+  for (const [symbol, frequency] of frequencies) {
+    const probability = frequency / totalSymbols;
+    const codeLength = codeLengths.get(symbol) ?? 0;
+
+    entropyBits -= probability * Math.log2(probability);
+    averageLength += probability * codeLength;
+    kraftSum += m ** -codeLength;
+    totalDigits += frequency * codeLength;
+
+    symbols.push({
+      symbol,
+      frequency,
+      probability,
+      codeLength,
+      information: -Math.log2(probability) / bitsPerDigit,
+    });
+  }
+
+  // Entropy measured in base-m units, i.e. the lower bound on digits/symbol
+  const entropy = entropyBits / bitsPerDigit;
+  const efficiency = averageLength > 0 ? entropy / averageLength : 0;
+
+  return {
+    m,
+    totalSymbols,
+    distinctSymbols: frequencies.size,
+    entropyBits,
+    entropy,
+    averageLength,
+    efficiency,
+    redundancy: averageLength > 0 ? 1 - efficiency : 0,
+    kraftSum,
+    totalDigits,
+    bitsPerDigit,
+    equivalentBits: totalDigits * bitsPerDigit,
+    symbols,
+  };
+}
@@ -0,0 +1,198 @@
+import { treeCodeLengths } from "./canonical";
+import {
+  HuffmanTreeNode,
+  calculateRequiredDummies,
+  generateMaryTree,
+} from "./huffman";
+import { TIE_BREAKS, TieBreak } from "./priorityQueue";
+import { displaySymbol } from "./symbols";
+
+// Shape of a code tree: all optimal trees share the average length, but
+// not how spread out the codeword lengths are
+export interface TreeShape {
+  averageLength: number;
+  // Of the codeword lengths, weighted by symbol probability
+  variance: number;
+  maxLength: number;
+  // Deepest leaf, dummies included
+  height: number;
+}
+
+// Nested-parentheses form, e.g. ((a b) c)
+export function formatTree(node: HuffmanTreeNode, hexSymbols = false): string {
+  if (node.children.length === 0) {
+    return node.isDummy ? "∅" : displaySymbol(node.data, hexSymbols);
+  }
+  return `(${node.children.map((child) => formatTree(child, hexSymbols)).join(" ")})`;
+}
+
+function treeHeight(node: HuffmanTreeNode): number {
+  let height = 0;
+  for (const child of node.children) height = Math.max(height, treeHeight(child) + 1);
+  return height;
+}
+
+export function treeShape(
+  root: HuffmanTreeNode | null,
+  frequencies: Map<string, number>
+): TreeShape {
+  const lengths = treeCodeLengths(root);
+  let total = 0;
+  let weighted = 0;
+  let maxLength = 0;
+  for (const [symbol, freq] of frequencies) {
+    const length = lengths.get(symbol) ?? 0;
+    total += freq;
+    weighted += freq * length;
+    maxLength = Math.max(maxLength, length);
+  }
+  const averageLength = total > 0 ? weighted / total : 0;
+
+  let variance = 0;
+  for (const [symbol, freq] of frequencies) {
+    variance += (freq / total) * ((lengths.get(symbol) ?? 0) - averageLength) ** 2;
+  }
+  return {
+    averageLength,
+    variance,
+    maxLength,
+    height: root ? treeHeight(root) : 0,
+  };
+}
+
+export interface TieBreakResult {
+  tieBreak: TieBreak;
+  root: HuffmanTreeNode | null;
+  shape: TreeShape;
+}
+
+export function compareTieBreaks(
+  frequencies: Map<string, number>,
+  m: number
+): TieBreakResult[] {
+  if (frequencies.size === 0) return [];
+  return TIE_BREAKS.map(({ id }) => {
+    const root = generateMaryTree(frequencies, m, undefined, "twoQueue", id);
+    return { tieBreak: id, root, shape: treeShape(root, frequencies) };
+  });
+}
+
+// Enumerating trees is exponential; it is only offered for small alphabets
+// and stops after this many search states or trees
+export const MAX_ENUMERATION_SYMBOLS = 12;
+const MAX_SEARCH_STATES = 50000;
+const MAX_TREES = 1000;
+
+export interface OptimalTree {
+  root: HuffmanTreeNode;
+  shape: TreeShape;
+}
+
+export interface OptimalTreeEnumeration {
+  trees: OptimalTree[];
+  // False when a search limit was hit, so there may be more trees
+  complete: boolean;
+}
+
+interface SearchNode {
+  node: HuffmanTreeNode;
+  // Canonical form of the subtree: the same for trees that differ only in
+  // the order of children
+  key: string;
+}
+
+function mergeNodes(children: SearchNode[]): SearchNode {
+  const parent = new HuffmanTreeNode("internal", 0);
+  for (const child of children) {
+    parent.children.push(child.node);
+    parent.freq += child.node.freq;
+  }
+  const keys = children.map((child) => child.key).sort();
+  return { node: parent, key: `(${keys.join(",")})` };
+}
+
+// Every tree the m-ary Huffman algorithm can build when each tie is
+// resolved every possible way. All of them are optimal; trees that only
+// differ in the order of children are counted once.
+export function enumerateOptimalTrees(
+  frequencies: Map<string, number>,
+  m: number
+): OptimalTreeEnumeration {
+  const trees = new Map<string, OptimalTree>();
+  if (frequencies.size === 0) return { trees: [], complete: true };
+
+  const start: SearchNode[] = Array.from(frequencies, ([symbol, freq]) => ({
+    node: new HuffmanTreeNode(symbol, freq),
+    key: `s${JSON.stringify(symbol)}`,
+  }));
+  const dummies =
+    start.length > 1 ? calculateRequiredDummies(start.length, m) : 0;
+  for (let i = 0; i < dummies; i++) {
+    start.push({ node: new HuffmanTreeNode(`z${i}`, 0, true), key: "d" });
+  }
+
+  const visited = new Set<string>();
+  let complete = true;
+
+  const search = (queue: SearchNode[]) => {
+    if (!complete) return;
+    if (queue.length === 1) {
+      const [root] = queue;
+      if (!trees.has(root.key)) {
+        trees.set(root.key, { root: root.node, shape: treeShape(root.node, frequencies) });
+        if (trees.size >= MAX_TREES) complete = false;
+      }
+      return;
+    }
+
+    const state = queue.map((item) => item.key).sort().join("|");
+    if (visited.has(state)) return;
+    if (visited.size >= MAX_SEARCH_STATES) {
+      complete = false;
+      return;
+    }
+    visited.add(state);
+
+    // The m lightest nodes are merged; the only freedom is which of the
+    // nodes tied with the m-th lightest take the remaining places
+    const sorted = [...queue].sort((a, b) => a.node.freq - b.node.freq);
+    const count = Math.min(m, sorted.length);
+    const threshold = sorted[count - 1].node.freq;
+    const lighter = sorted.filter((item) => item.node.freq < threshold);
+    const tied = sorted.filter((item) => item.node.freq === threshold);
+    const heavier = sorted.filter((item) => item.node.freq > threshold);
+    const places = count - lighter.length;
+
+    // Tied nodes with the same key are interchangeable, so choose how many
+    // of each kind to take rather than which ones
+    const kinds = new Map<string, SearchNode[]>();
+    for (const item of tied) {
+      const kind = kinds.get(item.key);
+      if (kind) kind.push(item);
+      else kinds.set(item.key, [item]);
+    }
+    const groups = [...kinds.values()];
+
+    const choose = (index: number, left: number, taken: SearchNode[], kept: SearchNode[]) => {
+      if (index === groups.length) {
+        if (left === 0) {
+          search([...heavier, ...kept, mergeNodes([...lighter, ...taken])]);
+        }
+        return;
+      }
+      const group = groups[index];
+      for (let take = Math.min(left, group.length); take >= 0; take--) {
+        choose(
+          index + 1,
+          left - take,
+          [...taken, ...group.slice(0, take)],
+          [...kept, ...group.slice(take)]
+        );
+      }
+    };
+    choose(0, places, [], []);
+  };
+  search(start);
+
+  return { trees: [...trees.values()], complete };
+}
@@ -0,0 +1,181 @@
+import { HuffmanTreeNode } from "./huffman";
+
+// How nodes of equal frequency are ordered in the queue. Every policy
+// gives an optimal tree, but not the same one.
+export type TieBreak = "label" | "mergedLast" | "mergedFirst" | "insertion";
+
+export const TIE_BREAKS: {
+  id: TieBreak;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: "label",
+    name: "Symbol label",
+    description: "Labels in locale order; merged nodes sort as \"internal\"",
+  },
+  {
+    id: "mergedLast",
+    name: "Merged last",
+    description: "Leaves before merged nodes: the minimum-variance tree",
+  },
+  {
+    id: "mergedFirst",
+    name: "Merged first",
+    description: "Merged nodes before leaves, which tends to give deeper trees",
+  },
+  {
+    id: "insertion",
+    name: "Insertion order",
+    description: "First occurrence in the input, then merge order",
+  },
+];
+
+// Queue order: lower frequency first, then the tie-break policy, then
+// insertion order. "label" is the order the original sort-on-every-insert
+// queue produced, so trees (and codes) stay the same by default.
+const collator = new Intl.Collator();
+
+interface QueueItem {
+  node: HuffmanTreeNode;
+  seq: number;
+}
+
+type ItemComparator = (a: QueueItem, b: QueueItem) => number;
+
+function isMerged(item: QueueItem): number {
+  return item.node.children.length > 0 ? 1 : 0;
+}
+
+const TIE_COMPARATORS: Record<TieBreak, ItemComparator> = {
+  label: (a, b) => collator.compare(a.node.data, b.node.data),
+  mergedLast: (a, b) =>
+    isMerged(a) - isMerged(b) || collator.compare(a.node.data, b.node.data),
+  mergedFirst: (a, b) =>
+    isMerged(b) - isMerged(a) || collator.compare(a.node.data, b.node.data),
+  insertion: () => 0,
+};
+
+function itemComparator(tieBreak: TieBreak): ItemComparator {
+  const tie = TIE_COMPARATORS[tieBreak];
+  return (a, b) => a.node.freq - b.node.freq || tie(a, b) || a.seq - b.seq;
+}
+
+// Binary min-heap: O(log n) enqueue and dequeue
+export class PriorityQueue {
+  private items: QueueItem[] = [];
+  private seq = 0;
+  private compare: ItemComparator;
+
+  constructor(tieBreak: TieBreak = "label") {
+    this.compare = itemComparator(tieBreak);
+  }
+
+  enqueue(node: HuffmanTreeNode) {
+    const items = this.items;
+    const item = { node, seq: this.seq++ };
+    let index = items.length;
+    items.push(item);
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[parent], item) <= 0) break;
+      items[index] = items[parent];
+      index = parent;
+    }
+    items[index] = item;
+  }
+
+  dequeue(): HuffmanTreeNode | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        if (left >= items.length) break;
+        const right = left + 1;
+        const child =
+          right < items.length && this.compare(items[right], items[left]) < 0
+            ? right
+            : left;
+        if (this.compare(last, items[child]) <= 0) break;
+        items[index] = items[child];
+        index = child;
+      }
+      items[index] = last;
+    }
+    return top.node;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  // Queue contents in dequeue order (a sorted copy, for visualizations)
+  getNodes(): HuffmanTreeNode[] {
+    return [...this.items].sort(this.compare).map((item) => item.node);
+  }
+}
+
+// Linear-time alternative for Huffman construction: leaves are sorted once,
+// and merged nodes are created in non-decreasing weight order, so a plain
+// FIFO keeps them sorted. Dequeue takes the smaller head of the two queues.
+// Every tie-break policy orders merged nodes among themselves by creation,
+// so the FIFO stays valid for all of them.
+export class TwoQueue {
+  private leaves: QueueItem[];
+  private merged: QueueItem[] = [];
+  private leafHead = 0;
+  private mergedHead = 0;
+  private seq: number;
+  private compare: ItemComparator;
+
+  constructor(leaves: HuffmanTreeNode[], tieBreak: TieBreak = "label") {
+    this.compare = itemComparator(tieBreak);
+    this.leaves = leaves
+      .map((node, seq) => ({ node, seq }))
+      .sort(this.compare);
+    this.seq = leaves.length;
+  }
+
+  // Only valid for nodes at least as heavy as every node dequeued so far,
+  // which holds for the parents built by generateMaryTree
+  enqueue(node: HuffmanTreeNode) {
+    this.merged.push({ node, seq: this.seq++ });
+  }
+
+  private takeLeaf(): boolean {
+    if (this.leafHead >= this.leaves.length) return false;
+    if (this.mergedHead >= this.merged.length) return true;
+    return (
+      this.compare(this.leaves[this.leafHead], this.merged[this.mergedHead]) <= 0
+    );
+  }
+
+  dequeue(): HuffmanTreeNode | undefined {
+    if (this.takeLeaf()) return this.leaves[this.leafHead++].node;
+    if (this.mergedHead < this.merged.length) {
+      return this.merged[this.mergedHead++].node;
+    }
+    return undefined;
+  }
+
+  get size(): number {
+    return (
+      this.leaves.length - this.leafHead + this.merged.length - this.mergedHead
+    );
+  }
+
+  getNodes(): HuffmanTreeNode[] {
+    return [
+      ...this.leaves.slice(this.leafHead),
+      ...this.merged.slice(this.mergedHead),
+    ]
+      .sort(this.compare)
+      .map((item) => item.node);
+  }
+}
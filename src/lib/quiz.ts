@@ -0,0 +1,151 @@
+import { Codeword, HuffmanTreeNode, generateCodes } from "./huffman";
+import { PriorityQueue } from "./priorityQueue";
+
+// A practice problem: a small random distribution and branching factor
+export interface Exercise {
+  frequencies: Map<string, number>;
+  m: number;
+}
+
+const MIN_QUIZ_M = 2;
+const MAX_QUIZ_M = 4;
+const MAX_WEIGHT = 20;
+
+// Random integers in [min, max]
+function between(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function generateExercise(random: () => number = Math.random): Exercise {
+  const m = between(random, MIN_QUIZ_M, MAX_QUIZ_M);
+  // Enough symbols for a few merges, few enough to do by hand
+  const count = between(random, m + 2, m + 5);
+  const frequencies = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    frequencies.set(String.fromCharCode(97 + i), between(random, 1, MAX_WEIGHT));
+  }
+  return { frequencies, m };
+}
+
+// Leaves plus the given number of dummies, as generateMaryTree starts
+export function startForest(exercise: Exercise, dummies: number): HuffmanTreeNode[] {
+  const forest = Array.from(
+    exercise.frequencies,
+    ([symbol, freq]) => new HuffmanTreeNode(symbol, freq)
+  );
+  for (let i = 0; i < dummies; i++) forest.push(new HuffmanTreeNode(`z${i}`, 0, true));
+  return forest;
+}
+
+// The nodes a priority queue would merge next. Any selection with the same
+// weights is just as optimal: it only resolves ties differently.
+export function referenceMerge(forest: HuffmanTreeNode[], m: number): HuffmanTreeNode[] {
+  const queue = new PriorityQueue();
+  for (const node of forest) queue.enqueue(node);
+  const merged: HuffmanTreeNode[] = [];
+  while (merged.length < m && queue.size > 0) merged.push(queue.dequeue()!);
+  return merged;
+}
+
+// Why a selection is not an optimal merge, or null if it is one
+export function checkMerge(
+  forest: HuffmanTreeNode[],
+  selected: HuffmanTreeNode[],
+  m: number
+): string | null {
+  const expected = referenceMerge(forest, m).map((node) => node.freq);
+  if (selected.length !== expected.length) {
+    return `Select exactly ${expected.length} nodes: every merge takes m = ${m}.`;
+  }
+  const weights = selected.map((node) => node.freq).sort((a, b) => a - b);
+  if (weights.every((weight, i) => weight === expected[i])) return null;
+
+  // Name one weight picked instead of one that belongs in the merge
+  const missing = [...expected];
+  const extra: number[] = [];
+  for (const weight of weights) {
+    const index = missing.indexOf(weight);
+    if (index >= 0) missing.splice(index, 1);
+    else extra.push(weight);
+  }
+  return (
+    `Merge the ${expected.length} smallest weights (${expected.join(", ")}): ` +
+    `the node of weight ${extra[0]} should be one of weight ${missing[0]}.`
+  );
+}
+
+// Children are ordered by weight, so digit 0 goes to the lightest
+export function mergeNodes(
+  forest: HuffmanTreeNode[],
+  selected: HuffmanTreeNode[]
+): HuffmanTreeNode[] {
+  const parent = new HuffmanTreeNode("internal", 0);
+  parent.children = [...selected].sort((a, b) => a.freq - b.freq);
+  parent.freq = selected.reduce((sum, node) => sum + node.freq, 0);
+  return [...forest.filter((node) => !selected.includes(node)), parent];
+}
+
+export interface CodewordCheck {
+  symbol: string;
+  // Depth of the symbol in the learner's tree
+  expectedLength: number;
+  correct: boolean;
+  problem: string | null;
+}
+
+function parseCodeword(text: string, m: number): Codeword | null {
+  const digits = Array.from(text.trim(), (char) => Number.parseInt(char, 36));
+  return digits.every((digit) => Number.isInteger(digit) && digit < m) ? digits : null;
+}
+
+function sharedPrefix(a: Codeword, b: Codeword): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+// Codewords are accepted for any assignment of digits to the branches of
+// the learner's tree: each must be as long as its leaf is deep, and two
+// codewords must agree for exactly as many digits as their leaves share
+// ancestors below the root.
+export function checkCodewords(
+  root: HuffmanTreeNode,
+  answers: Map<string, string>,
+  m: number
+): CodewordCheck[] {
+  const paths = new Map<string, Codeword>();
+  generateCodes(root, [], paths);
+  const parsed = new Map<string, Codeword | null>();
+  for (const symbol of paths.keys()) {
+    parsed.set(symbol, parseCodeword(answers.get(symbol) ?? "", m));
+  }
+
+  return Array.from(paths, ([symbol, path]) => {
+    const answer = parsed.get(symbol)!;
+    const result = (problem: string | null): CodewordCheck => ({
+      symbol,
+      expectedLength: path.length,
+      correct: problem === null,
+      problem,
+    });
+    if (answer === null || answer.length === 0) {
+      return result(`Use the digits 0–${m - 1}.`);
+    }
+    if (answer.length !== path.length) {
+      return result(
+        `Its leaf is ${path.length} level${path.length === 1 ? "" : "s"} deep, so the codeword has ${path.length} digit${path.length === 1 ? "" : "s"}.`
+      );
+    }
+    for (const [other, otherPath] of paths) {
+      const otherAnswer = parsed.get(other);
+      if (other === symbol || !otherAnswer || otherAnswer.length !== otherPath.length) continue;
+      const shared = sharedPrefix(path, otherPath);
+      if (sharedPrefix(answer, otherAnswer) !== shared) {
+        return result(
+          `It should share exactly ${shared} leading digit${shared === 1 ? "" : "s"} with "${other}", where their branches split.`
+        );
+      }
+    }
+    return result(null);
+  });
+}
@@ -0,0 +1,100 @@
+import { Codeword } from "./huffman";
+import { CodeMetrics } from "./metrics";
+import { SessionConfig, SessionError, compactSession, expandSession } from "./session";
+
+// Results kept with a saved run, so that two runs compare without redoing them
+export interface RunSnapshot {
+  distinctSymbols: number;
+  totalSymbols: number;
+  entropy: number;
+  averageLength: number;
+  efficiency: number;
+  redundancy: number;
+  totalDigits: number;
+  equivalentBits: number;
+  // Only text input has a size to compare against
+  compressionRatio: number | null;
+  // [symbol, weight, codeword], most frequent first
+  codes: [string, number, Codeword][];
+  // More symbols than MAX_SAVED_SYMBOLS were coded
+  truncated: boolean;
+}
+
+export interface SavedRun {
+  id: string;
+  name: string;
+  savedAt: number;
+  config: SessionConfig;
+  snapshot: RunSnapshot;
+}
+
+// The part of the browser's localStorage used here; lib code runs in Node too
+export interface RunStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = "mary-huffman-runs";
+// Word models can have tens of thousands of symbols; storage is small
+export const MAX_SAVED_SYMBOLS = 1000;
+export const MAX_SAVED_TEXT = 200_000;
+
+export function snapshotRun(
+  metrics: CodeMetrics,
+  frequencies: Map<string, number>,
+  codes: Map<string, Codeword>,
+  compressionRatio: number | null
+): RunSnapshot {
+  const sorted = Array.from(frequencies).sort(([, a], [, b]) => b - a);
+  return {
+    distinctSymbols: metrics.distinctSymbols,
+    totalSymbols: metrics.totalSymbols,
+    entropy: metrics.entropy,
+    averageLength: metrics.averageLength,
+    efficiency: metrics.efficiency,
+    redundancy: metrics.redundancy,
+    totalDigits: metrics.totalDigits,
+    equivalentBits: metrics.equivalentBits,
+    compressionRatio,
+    codes: sorted
+      .slice(0, MAX_SAVED_SYMBOLS)
+      .map(([symbol, weight]) => [symbol, weight, codes.get(symbol) ?? []]),
+    truncated: sorted.length > MAX_SAVED_SYMBOLS,
+  };
+}
+
+// Entries written by another version, or edited by hand, are skipped
+export function loadRuns(storage: RunStorage): SavedRun[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(storage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  const runs: SavedRun[] = [];
+  for (const entry of stored) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { id, name, savedAt, config, snapshot } = entry;
+    if (typeof id !== "string" || typeof name !== "string" || typeof savedAt !== "number") {
+      continue;
+    }
+    if (typeof snapshot !== "object" || !Array.isArray(snapshot?.codes)) continue;
+    try {
+      runs.push({ id, name, savedAt, config: expandSession(config), snapshot });
+    } catch (error) {
+      if (!(error instanceof SessionError)) throw error;
+    }
+  }
+  return runs;
+}
+
+export function storeRuns(storage: RunStorage, runs: SavedRun[]): void {
+  const stored = runs.map((run) => ({ ...run, config: compactSession(run.config) }));
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    throw new SessionError("Browser storage is full; delete some saved runs first");
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  ALPHABET_PRESETS,
+  AlphabetPresetId,
+  MAX_BRANCHING_FACTOR,
+  MIN_BRANCHING_FACTOR,
+} from "./alphabet";
+import { ARCHIVE_CODINGS, ArchiveCoding, DEFAULT_BLOCK_SIZE } from "./archive";
+import { CodeMode } from "./coder";
+import { TIE_BREAKS, TieBreak } from "./priorityQueue";
+import { SYMBOL_MODEL_IDS, SymbolModel } from "./symbolModels";
+import { WeightRow } from "./weightTable";
+
+// Everything needed to rebuild the same tree: the input and every option
+export interface SessionConfig {
+  inputMode: "text" | "table";
+  text: string;
+  rows: WeightRow[];
+  m: number;
+  model: SymbolModel;
+  codeMode: CodeMode;
+  maxLength: number | null;
+  tieBreak: TieBreak;
+  alphabetId: AlphabetPresetId;
+  customAlphabet: string;
+  archiveCoding: ArchiveCoding;
+  blockSize: number;
+}
+
+export const DEFAULT_SESSION: SessionConfig = {
+  inputMode: "text",
+  text: "aabbbccccc",
+  rows: [],
+  m: 3,
+  model: "char",
+  codeMode: "tree",
+  maxLength: null,
+  tieBreak: "label",
+  alphabetId: "standard",
+  customAlphabet: "",
+  archiveCoding: "static",
+  blockSize: DEFAULT_BLOCK_SIZE,
+};
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+// One-letter keys keep links short; options left at their default are omitted
+const KEYS: Record<keyof SessionConfig, string> = {
+  inputMode: "i",
+  text: "t",
+  rows: "r",
+  m: "m",
+  model: "s",
+  codeMode: "c",
+  maxLength: "l",
+  tieBreak: "b",
+  alphabetId: "a",
+  customAlphabet: "x",
+  archiveCoding: "f",
+  blockSize: "k",
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+const oneOf =
+  <T extends string>(values: readonly T[]) =>
+  (value: unknown): value is T =>
+    values.includes(value as T);
+
+// Checks a field in its compact form
+const VALID: Record<keyof SessionConfig, (value: unknown) => boolean> = {
+  inputMode: oneOf(["text", "table"] as const),
+  text: isString,
+  rows: (value) =>
+    Array.isArray(value) &&
+    value.every((row) => Array.isArray(row) && row.length === 2 && row.every(isString)),
+  m: (value) =>
+    Number.isInteger(value) &&
+    (value as number) >= MIN_BRANCHING_FACTOR &&
+    (value as number) <= MAX_BRANCHING_FACTOR,
+  model: oneOf(SYMBOL_MODEL_IDS),
+  codeMode: oneOf(["tree", "canonical"] as const),
+  maxLength: (value) => value === null || isPositiveInteger(value),
+  tieBreak: oneOf(TIE_BREAKS.map((policy) => policy.id)),
+  alphabetId: oneOf(ALPHABET_PRESETS.map((preset) => preset.id)),
+  customAlphabet: isString,
+  archiveCoding: oneOf(ARCHIVE_CODINGS),
+  blockSize: isPositiveInteger,
+};
+
+// Rows travel as [symbol, weight] pairs
+export function compactSession(config: SessionConfig): Record<string, unknown> {
+  const compact: Record<string, unknown> = {};
+  for (const key of Object.keys(KEYS) as (keyof SessionConfig)[]) {
+    const value = config[key];
+    if (key === "rows") {
+      if (config.rows.length > 0) {
+        compact[KEYS.rows] = config.rows.map((row) => [row.symbol, row.weight]);
+      }
+    } else if (value !== DEFAULT_SESSION[key]) {
+      compact[KEYS[key]] = value;
+    }
+  }
+  return compact;
+}
+
+export function expandSession(compact: unknown): SessionConfig {
+  if (typeof compact !== "object" || compact === null || Array.isArray(compact)) {
+    throw new SessionError("The session is not an object");
+  }
+  const fields = compact as Record<string, unknown>;
+  const config: Partial<Record<keyof SessionConfig, unknown>> = { ...DEFAULT_SESSION };
+  for (const key of Object.keys(KEYS) as (keyof SessionConfig)[]) {
+    if (!(KEYS[key] in fields)) continue;
+    const value = fields[KEYS[key]];
+    if (!VALID[key](value)) throw new SessionError(`The session has an invalid ${key}`);
+    config[key] =
+      key === "rows"
+        ? (value as [string, string][]).map(([symbol, weight]) => ({ symbol, weight }))
+        : value;
+  }
+  return config as SessionConfig;
+}
+
+// Links are "#s=" then a format letter: j for plain JSON, z for JSON
+// compressed with raw deflate, whichever is shorter; both in base64url
+export const SESSION_HASH_PREFIX = "#s=";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function encodeSession(config: SessionConfig): Promise<string> {
+  const json = textEncoder.encode(JSON.stringify(compactSession(config)));
+  const deflated = await transform(json, new CompressionStream("deflate-raw"));
+  return deflated.length < json.length
+    ? `${SESSION_HASH_PREFIX}z${toBase64Url(deflated)}`
+    : `${SESSION_HASH_PREFIX}j${toBase64Url(json)}`;
+}
+
+// Returns null for a hash that holds no session at all
+export async function decodeSession(hash: string): Promise<SessionConfig | null> {
+  if (!hash.startsWith(SESSION_HASH_PREFIX)) return null;
+  const format = hash.charAt(SESSION_HASH_PREFIX.length);
+  const payload = hash.slice(SESSION_HASH_PREFIX.length + 1);
+
+  let compact: unknown;
+  try {
+    let json = fromBase64Url(payload);
+    if (format === "z") {
+      json = await transform(json, new DecompressionStream("deflate-raw"));
+    } else if (format !== "j") {
+      throw new SessionError(`Unknown session format "${format}"`);
+    }
+    compact = JSON.parse(textDecoder.decode(json));
+  } catch (error) {
+    if (error instanceof SessionError) throw error;
+    throw new SessionError("The link is damaged or incomplete");
+  }
+  return expandSession(compact);
+}
@@ -0,0 +1,75 @@
+// How text input is split into source symbols. Every model is lossless:
+// joining the tokens gives back the original text.
+export type SymbolModel = "char" | "word" | "bigram" | "trigram" | "grapheme";
+
+export const SYMBOL_MODELS: {
+  id: SymbolModel;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: "char",
+    name: "Characters",
+    description: "One symbol per Unicode code point",
+  },
+  {
+    id: "word",
+    name: "Words",
+    description: "Words, whitespace runs and single punctuation marks",
+  },
+  {
+    id: "bigram",
+    name: "Bigrams",
+    description: "Consecutive pairs of characters",
+  },
+  {
+    id: "trigram",
+    name: "Trigrams",
+    description: "Consecutive triples of characters",
+  },
+  {
+    id: "grapheme",
+    name: "Graphemes",
+    description: "User-perceived characters (emoji, accented letters)",
+  },
+];
+
+// Stored in the archive header
+export const SYMBOL_MODEL_IDS: SymbolModel[] = SYMBOL_MODELS.map(
+  (model) => model.id
+);
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}_]+|\s+|[^\p{L}\p{M}\p{N}_\s]/gu;
+
+function chunk(text: string, size: number): string[] {
+  const chars = Array.from(text);
+  const tokens: string[] = [];
+  // The last n-gram is shorter when the length is not a multiple of n
+  for (let i = 0; i < chars.length; i += size) {
+    tokens.push(chars.slice(i, i + size).join(""));
+  }
+  return tokens;
+}
+
+function graphemes(text: string): string[] {
+  // Intl.Segmenter is missing from older browsers; code points are the
+  // closest approximation there
+  if (typeof Intl.Segmenter !== "function") return Array.from(text);
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  return Array.from(segmenter.segment(text), (part) => part.segment);
+}
+
+export function tokenize(text: string, model: SymbolModel): string[] {
+  switch (model) {
+    case "char":
+      return Array.from(text);
+    case "word":
+      return text.match(WORD_PATTERN) ?? [];
+    case "bigram":
+      return chunk(text, 2);
+    case "trigram":
+      return chunk(text, 3);
+    case "grapheme":
+      return graphemes(text);
+  }
+}
@@ -0,0 +1,54 @@
+export type SymbolType = "text" | "bytes";
+
+// In byte mode every byte value b is represented by the one-character
+// symbol String.fromCharCode(b), so the string-keyed tree and codebooks
+// work unchanged for arbitrary binary data.
+export function byteSymbol(byte: number): string {
+  return String.fromCharCode(byte);
+}
+
+export function bytesToSymbols(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+  let symbols = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    symbols += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return symbols;
+}
+
+export function symbolsToBytes(symbols: string): Uint8Array {
+  const bytes = new Uint8Array(symbols.length);
+  for (let i = 0; i < symbols.length; i++) {
+    bytes[i] = symbols.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function isPrintableByte(code: number): boolean {
+  return (code >= 0x20 && code < 0x7f) || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+export function isPrintableByteData(symbols: Iterable<string>): boolean {
+  for (const symbol of symbols) {
+    if (!isPrintableByte(symbol.charCodeAt(0))) return false;
+  }
+  return true;
+}
+
+export function formatByte(byte: number): string {
+  return `0x${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+}
+
+const WHITESPACE_GLYPHS: Record<string, string> = {
+  " ": "␣",
+  "\n": "↵",
+  "\t": "⇥",
+  "\r": "␍",
+};
+
+export function displaySymbol(symbol: string, asHex = false): string {
+  // Byte symbols are always one code unit; anything longer is a label
+  if (asHex && symbol.length === 1) return formatByte(symbol.charCodeAt(0));
+  // Word and n-gram tokens can contain whitespace anywhere
+  return symbol.replace(/[ \n\t\r]/g, (char) => WHITESPACE_GLYPHS[char]);
+}
@@ -0,0 +1,139 @@
+import { Codeword, HuffmanTreeNode } from "./huffman";
+
+// Tidy tree layout in the style of Reingold and Tilford, for any number of
+// children. Each subtree is laid out on its own and summarized by its
+// contours: the leftmost and rightmost x at every depth. Siblings are then
+// pushed right until their contours clear each other by at least one unit,
+// and the parent is centered over its first and last child. Subtrees keep
+// their shape wherever they end up, and no two nodes overlap.
+//
+// Coordinates are in layout units: x in node slots, y in levels.
+
+export interface LayoutNode {
+  node: HuffmanTreeNode;
+  x: number;
+  y: number;
+  parent: LayoutNode | null;
+  // Branch digit from the parent
+  digit: number;
+  // Hidden descendants of a collapsed node
+  hiddenCount: number;
+  path: Codeword;
+}
+
+export interface TreeLayout {
+  nodes: LayoutNode[];
+  minX: number;
+  maxX: number;
+  depth: number;
+}
+
+interface Contour {
+  left: number[];
+  right: number[];
+}
+
+const SEPARATION = 1;
+
+// Pixel geometry shared by the tree view and the SVG export
+export const NODE_SIZE = 60;
+export const X_UNIT = 70;
+export const Y_UNIT = 130;
+export const MARGIN = 50;
+
+function countDescendants(node: HuffmanTreeNode): number {
+  let count = 0;
+  const stack = [...node.children];
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    count++;
+    stack.push(...next.children);
+  }
+  return count;
+}
+
+export function layoutTree(
+  root: HuffmanTreeNode | null,
+  collapsed: ReadonlySet<HuffmanTreeNode> = new Set()
+): TreeLayout {
+  const empty = { nodes: [], minX: 0, maxX: 0, depth: 0 };
+  if (!root) return empty;
+
+  // x of each child relative to its parent
+  const offsets = new Map<HuffmanTreeNode, number>();
+  const isOpen = (node: HuffmanTreeNode) =>
+    node.children.length > 0 && !collapsed.has(node);
+
+  const place = (node: HuffmanTreeNode): Contour => {
+    if (!isOpen(node)) return { left: [0], right: [0] };
+
+    const positions: number[] = [];
+    let left: number[] = [];
+    let right: number[] = [];
+    node.children.forEach((child, index) => {
+      const contour = place(child);
+      let shift = 0;
+      if (index > 0) {
+        shift = -Infinity;
+        const shared = Math.min(right.length, contour.left.length);
+        for (let d = 0; d < shared; d++) {
+          shift = Math.max(shift, right[d] - contour.left[d] + SEPARATION);
+        }
+      }
+      positions.push(shift);
+
+      // The new child is the rightmost at each of its depths; the leftmost
+      // only where no earlier sibling reaches
+      for (let d = 0; d < contour.right.length; d++) {
+        right[d] = shift + contour.right[d];
+      }
+      for (let d = left.length; d < contour.left.length; d++) {
+        left[d] = shift + contour.left[d];
+      }
+    });
+
+    const center = (positions[0] + positions[positions.length - 1]) / 2;
+    node.children.forEach((child, index) =>
+      offsets.set(child, positions[index] - center)
+    );
+    left = [0, ...left.map((x) => x - center)];
+    right = [0, ...right.map((x) => x - center)];
+    return { left, right };
+  };
+  place(root);
+
+  const nodes: LayoutNode[] = [];
+  let minX = 0;
+  let maxX = 0;
+  let depth = 0;
+  const visit = (
+    node: HuffmanTreeNode,
+    x: number,
+    y: number,
+    parent: LayoutNode | null,
+    digit: number
+  ) => {
+    const open = isOpen(node);
+    const laid: LayoutNode = {
+      node,
+      x,
+      y,
+      parent,
+      digit,
+      hiddenCount: node.children.length > 0 && !open ? countDescendants(node) : 0,
+      path: parent ? [...parent.path, digit] : [],
+    };
+    nodes.push(laid);
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    depth = Math.max(depth, y);
+    if (open) {
+      node.children.forEach((child, index) =>
+        visit(child, x + offsets.get(child)!, y + 1, laid, index)
+      );
+    }
+  };
+  visit(root, 0, 0, null, 0);
+
+  return { nodes, minX, maxX, depth };
+}
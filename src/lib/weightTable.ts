@@ -0,0 +1,129 @@
+import { csvField, parseCsv } from "./csv";
+
+// A distribution typed in directly, as in textbook problems, instead of
+// counted from text. Cells are kept as typed so that editing is lossless.
+export interface WeightRow {
+  symbol: string;
+  weight: string;
+}
+
+// Whole numbers are counts; anything else must be probabilities summing to 1
+export type WeightKind = "counts" | "probabilities";
+
+export interface WeightTable {
+  // Only usable when there are no errors
+  frequencies: Map<string, number>;
+  kind: WeightKind;
+  total: number;
+  errors: string[];
+}
+
+// How far probabilities may sum from 1 (rounding in typed decimals)
+export const PROBABILITY_TOLERANCE = 1e-6;
+
+// Sums of real weights pick up float noise (0.1 + 0.2); six significant
+// digits are plenty for display
+export function formatWeight(weight: number): string {
+  return Number.isInteger(weight) ? String(weight) : String(Number(weight.toPrecision(6)));
+}
+
+function isBlank(row: WeightRow): boolean {
+  return row.symbol === "" && row.weight.trim() === "";
+}
+
+export function parseWeightTable(rows: WeightRow[]): WeightTable {
+  const frequencies = new Map<string, number>();
+  const firstRow = new Map<string, number>();
+  const errors: string[] = [];
+  let total = 0;
+
+  rows.forEach((row, index) => {
+    if (isBlank(row)) return;
+    const line = `Row ${index + 1}`;
+    const weight = row.weight.trim() === "" ? NaN : Number(row.weight);
+
+    if (row.symbol === "") {
+      errors.push(`${line}: the symbol is empty`);
+    } else if (firstRow.has(row.symbol)) {
+      errors.push(
+        `${line}: ${JSON.stringify(row.symbol)} is already in row ${firstRow.get(row.symbol)! + 1}`
+      );
+    } else {
+      firstRow.set(row.symbol, index);
+    }
+
+    if (!Number.isFinite(weight)) {
+      errors.push(`${line}: ${JSON.stringify(row.weight)} is not a number`);
+    } else if (weight <= 0) {
+      errors.push(`${line}: weights must be positive, got ${weight}`);
+    } else if (row.symbol !== "" && !frequencies.has(row.symbol)) {
+      frequencies.set(row.symbol, weight);
+      total += weight;
+    }
+  });
+
+  const kind: WeightKind = Array.from(frequencies.values()).every(Number.isInteger)
+    ? "counts"
+    : "probabilities";
+  if (kind === "probabilities" && Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+    errors.push(`Probabilities sum to ${formatWeight(total)}, not 1`);
+  }
+
+  return { frequencies, kind, total, errors };
+}
+
+// Rescales the valid weights so that they sum to 1
+export function normalizeWeights(rows: WeightRow[]): WeightRow[] {
+  const total = rows.reduce((sum, row) => {
+    const weight = Number(row.weight);
+    return Number.isFinite(weight) && weight > 0 ? sum + weight : sum;
+  }, 0);
+  if (total === 0) return rows;
+  return rows.map((row) => {
+    const weight = Number(row.weight);
+    return Number.isFinite(weight) && weight > 0
+      ? { ...row, weight: formatWeight(weight / total) }
+      : row;
+  });
+}
+
+export function frequenciesToRows(frequencies: Map<string, number>): WeightRow[] {
+  return Array.from(frequencies, ([symbol, weight]) => ({
+    symbol,
+    weight: String(weight),
+  }));
+}
+
+export function weightsToCsv(rows: WeightRow[]): string {
+  const lines = ["symbol,weight"];
+  for (const row of rows) {
+    if (!isBlank(row)) lines.push([row.symbol, row.weight.trim()].map(csvField).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+const WEIGHT_COLUMNS = ["weight", "frequency", "count", "probability", "p"];
+
+// Two columns, symbol then weight. A header row is optional; with one, the
+// columns are found by name, so the codebook CSV export reads back too.
+export function parseWeightCsv(text: string): WeightRow[] {
+  const records = parseCsv(text).filter((record) => record.some((field) => field !== ""));
+  if (records.length === 0) return [];
+
+  let symbolColumn = 0;
+  let weightColumn = 1;
+  const header = records[0].map((field) => field.trim().toLowerCase());
+  if (header.includes("symbol")) {
+    symbolColumn = header.indexOf("symbol");
+    const named = WEIGHT_COLUMNS.map((name) => header.indexOf(name)).find(
+      (column) => column >= 0
+    );
+    weightColumn = named ?? (symbolColumn === 0 ? 1 : 0);
+    records.shift();
+  }
+
+  return records.map((record) => ({
+    symbol: record[symbolColumn] ?? "",
+    weight: (record[weightColumn] ?? "").trim(),
+  }));
+}
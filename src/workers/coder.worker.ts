@@ -0,0 +1,74 @@
+import { encodeAdaptive } from "../lib/adaptive";
+import { ChunkCallback, serializeArchive } from "../lib/archive";
+import { runBenchmark } from "../lib/benchmark";
+import {
+  compressChunks,
+  createArchiveFromResult,
+  decompressChunks,
+  encode,
+  encodeDistribution,
+} from "../lib/coder";
+import { compareCoders } from "../lib/comparison";
+import { CoderJob, WorkerRequest, WorkerResponse } from "./protocol";
+
+function post(response: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+function runJob(
+  job: CoderJob,
+  onProgress: (done: number, total: number) => void,
+  onChunk: ChunkCallback
+) {
+  switch (job.type) {
+    case "analyze": {
+      const result = encode(job.input, job.options);
+      return {
+        result,
+        archiveSize: serializeArchive(createArchiveFromResult(result, "")).length,
+      };
+    }
+    // No source text, so there is nothing to archive
+    case "analyzeDistribution":
+      return {
+        result: encodeDistribution(job.frequencies, job.options),
+        archiveSize: 0,
+      };
+    case "adaptiveDigits":
+      return encodeAdaptive(job.symbols, job.m, job.literal).length;
+    case "compareCoders":
+      return compareCoders(job.symbols, job.frequencies, job.m, job.codes);
+    case "compress": {
+      let size = 0;
+      compressChunks(job.input, { ...job.options, onProgress }, (chunk) => {
+        size += chunk.length;
+        onChunk(chunk);
+      });
+      return size;
+    }
+    case "decompress":
+      return decompressChunks(job.archive, onChunk, onProgress);
+    case "benchmark":
+      return runBenchmark(job.options);
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const result = runJob(
+      job,
+      (done, total) => post({ id, kind: "progress", done, total }),
+      // Chunks are never touched once handed on, so their buffers can move
+      (chunk) => post({ id, kind: "chunk", chunk }, [chunk.buffer])
+    );
+    post({ id, kind: "done", result });
+  } catch (error) {
+    post({
+      id,
+      kind: "error",
+      name: error instanceof Error ? error.name : "Error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,91 @@
+import { ArchiveError, ChunkCallback, ProgressCallback } from "../lib/archive";
+import { CoderJob, JobResult, WorkerRequest, WorkerResponse } from "./protocol";
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("The job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+interface PendingJob {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+  onChunk?: ChunkCallback;
+}
+
+// Error classes do not survive postMessage; rebuild the ones callers check
+function reviveError(name: string, message: string): Error {
+  if (name === "ArchiveError") return new ArchiveError(message);
+  if (name === "RangeError") return new RangeError(message);
+  return new Error(message);
+}
+
+// Runs coder jobs on a Web Worker that is started on first use. Cancelling
+// terminates the worker, which is the only way to stop a running job.
+export class CoderWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingJob>();
+
+  private start(): Worker {
+    const worker = new Worker(new URL("./coder.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const job = this.pending.get(message.id);
+      if (!job) return;
+
+      if (message.kind === "progress") {
+        job.onProgress?.(message.done, message.total);
+        return;
+      }
+      if (message.kind === "chunk") {
+        job.onChunk?.(message.chunk);
+        return;
+      }
+      this.pending.delete(message.id);
+      if (message.kind === "done") job.resolve(message.result);
+      else job.reject(reviveError(message.name, message.message));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(event.message || "The coder worker crashed"));
+    };
+    return worker;
+  }
+
+  // Jobs that stream their output hand it to onChunk before they resolve
+  run<J extends CoderJob>(
+    job: J,
+    onProgress?: ProgressCallback,
+    onChunk?: ChunkCallback
+  ): Promise<JobResult<J>> {
+    this.worker ??= this.start();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress,
+        onChunk,
+      });
+      const request: WorkerRequest = { id, job };
+      this.worker!.postMessage(request);
+    });
+  }
+
+  cancel() {
+    this.fail(new JobCancelledError());
+  }
+
+  private fail(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    jobs.forEach((job) => job.reject(error));
+  }
+}
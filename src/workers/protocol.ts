@@ -0,0 +1,74 @@
+import { LiteralKind } from "../lib/adaptive";
+import { BenchmarkOptions, BenchmarkResult } from "../lib/benchmark";
+import {
+  CompressOptions,
+  DecompressedInfo,
+  EncodeOptions,
+  EncodingResult,
+} from "../lib/coder";
+import { CoderResult } from "../lib/comparison";
+import { Codeword } from "../lib/huffman";
+
+// Messages between the app and coder.worker.ts. Progress callbacks cannot
+// cross the worker boundary, so they are sent back as progress messages.
+// Compression and decompression stream their output back as chunk messages;
+// their final result only describes what was streamed (for compression,
+// the archive size in bytes).
+export type CoderJob =
+  | { type: "analyze"; input: string | Uint8Array; options: EncodeOptions }
+  | {
+      type: "analyzeDistribution";
+      frequencies: Map<string, number>;
+      options: Omit<EncodeOptions, "model">;
+    }
+  // Follow-ups on an analyzed input, run only when their panels are shown
+  | { type: "adaptiveDigits"; symbols: string | string[]; m: number; literal: LiteralKind }
+  | {
+      type: "compareCoders";
+      symbols: string | string[];
+      frequencies: Map<string, number>;
+      m: number;
+      codes: Map<string, Codeword>;
+    }
+  | {
+      type: "compress";
+      input: string | Uint8Array;
+      options: Omit<CompressOptions, "onProgress">;
+    }
+  | { type: "decompress"; archive: Uint8Array }
+  | { type: "benchmark"; options: BenchmarkOptions };
+
+// What every change of input or options recomputes
+export interface AnalysisResult {
+  result: EncodingResult;
+  archiveSize: number;
+}
+
+export type JobResult<J extends CoderJob> = J extends {
+  type: "analyze" | "analyzeDistribution";
+}
+  ? AnalysisResult
+  : J extends { type: "adaptiveDigits" }
+    ? number
+    : J extends { type: "compareCoders" }
+      ? CoderResult[]
+      : J extends { type: "compress" }
+        ? number
+        : J extends { type: "benchmark" }
+          ? BenchmarkResult
+          : DecompressedInfo;
+
+export interface WorkerRequest {
+  id: number;
+  job: CoderJob;
+}
+
+export type WorkerResponse =
+  | { id: number; kind: "progress"; done: number; total: number }
+  | { id: number; kind: "chunk"; chunk: Uint8Array }
+  | {
+      id: number;
+      kind: "done";
+      result: AnalysisResult | CoderResult[] | DecompressedInfo | BenchmarkResult | number;
+    }
+  | { id: number; kind: "error"; name: string; message: string };